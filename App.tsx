@@ -3,17 +3,97 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as pdfjsLib from 'https://esm.sh/pdfjs-dist@4.5.136/legacy/build/pdf.mjs';
 import ePub from 'epubjs';
 import mammoth from 'https://esm.sh/mammoth@1.7.2';
-import { streamWikiDefinition, performAiSearch, streamInDocumentQuery, streamYouTubeSummary, streamWebResource, streamImageAnalysis, generateInfoDiagram, streamTranslation } from './services/geminiService';
+import { streamWikiDefinition, streamStructuredArticle, generatePreview, detectSenses, performAiSearch, streamInDocumentQuery, streamYouTubeSummary, streamWebResource, streamImageAnalysis, generateInfoDiagram, streamTranslation } from './services/geminiService';
+import { getModelProvider, modelProviderError } from './services/modelProvider';
+import { canRetryManually, ERROR_KIND_LABELS, GenerationError, type GenerationErrorKind } from './services/generationErrors';
+import { promptSignature } from './services/promptRegistry';
+import { resolveModel, type SettingsMode } from './services/generationSettings';
+import { articleVersions, type ArticleVersion, getCachedArticle, hasCachedArticle, putCachedArticle } from './services/articleCache';
+import { extractDiagramPrompts, loadOrGenerateDiagram } from './services/diagramCache';
+import type { TabTrail } from './services/knowledgeBundle';
+import {
+  canGoBack,
+  canGoForward,
+  currentHistoryNode,
+  EMPTY_HISTORY_TREE,
+  goBack,
+  goForward,
+  historyFromStacks,
+  type HistoryTree,
+  jumpToHistoryNode,
+  parseHistoryTree,
+  setCurrentSense,
+  startHistory,
+  visitTopic,
+} from './services/historyTree';
+import { addTransition, loadTransitions, saveTransitions, type TopicTransition } from './services/explorationGraph';
+import { loadDocument, loadSession, MAX_CLOSED_TABS, pruneDocuments, saveDocument, saveSession, type StoredDocument } from './services/sessionStore';
+import { DEFAULT_READING_DEPTH, nextReadingDepth, READING_DEPTHS, type ReadingDepth } from './services/readingDepth';
+import { formatRoute, parseRoute, type Route, type RouteHistoryState } from './services/routing';
+import { LANGUAGES } from './services/languages';
+import {
+  addBookmark,
+  type Bookmark,
+  type BookmarkCollection,
+  type BookmarkDocument,
+  bookmarkId,
+  createCollection,
+  deleteBookmarkContent,
+  isBookmarked,
+  loadBookmarkContent,
+  loadBookmarks,
+  loadCollections,
+  mergeBookmarks,
+  removeBookmark,
+  removeCollection,
+  renameCollection,
+  saveBookmarkContent,
+  saveBookmarks,
+  saveCollections,
+  type SavedContent,
+  updateBookmark,
+} from './services/bookmarks';
+import {
+  addAnnotation,
+  type Annotation,
+  contentHash,
+  loadAnnotations,
+  type QuotedPassage,
+  removeAnnotation,
+  saveAnnotations,
+  updateAnnotationNote,
+} from './services/annotations';
+import { type Command, isPaletteShortcut, isTypingTarget } from './services/commands';
+import { loadWordPreview } from './services/wordPreview';
+import { loadSenses, type SenseContext } from './services/senses';
+import { getPrefetchSettings, rankPrefetchCandidates, recordPrefetch, remainingPrefetches, waitForIdle } from './services/prefetch';
+import { detectInjectionAttempts, type InjectionFinding } from './services/untrustedContent';
+import { addUsage, checkBudget, EMPTY_USAGE_TOTALS, estimateTokens, formatCost, loadUsageBudget, saveUsageBudget, type UsageBudget, type UsageRecord, type UsageTotals } from './services/usage';
 import ContentDisplay from './components/ContentDisplay';
 import SearchBar from './components/SearchBar';
 import LoadingSkeleton from './components/LoadingSkeleton';
 import DocumentViewer from './components/DocumentViewer';
 import GroundingSourcesDisplay from './components/GroundingSourcesDisplay';
 import TabBar, { TabData } from './components/TabBar';
+import UsagePanel from './components/UsagePanel';
+import SettingsPanel from './components/SettingsPanel';
+import InjectionWarning from './components/InjectionWarning';
+import CacheManager from './components/CacheManager';
+import VersionBar from './components/VersionBar';
+import DiffView from './components/DiffView';
+import KnowledgeBundlePanel from './components/KnowledgeBundlePanel';
+import ExplorationGraphPanel from './components/ExplorationGraphPanel';
+import HistoryOutline from './components/HistoryOutline';
+import PreviewCard, { type PreviewAnchor } from './components/PreviewCard';
+import SensePicker from './components/SensePicker';
+import BookmarksSidebar from './components/BookmarksSidebar';
+import ArticleNotes from './components/ArticleNotes';
+import NotesPanel from './components/NotesPanel';
+import CommandPalette from './components/CommandPalette';
 
 // Set worker source once for pdf.js
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.5.136/legacy/build/pdf.worker.mjs';
@@ -28,13 +108,6 @@ const PREDEFINED_WORDS = [
 ];
 const UNIQUE_WORDS = [...new Set(PREDEFINED_WORDS)];
 
-interface CachedTopicState {
-  content: string;
-  generationTime: number | null;
-  sources?: any[];
-  language?: string;
-}
-
 interface FileData {
   base64: string;
   mimeType: string;
@@ -45,22 +118,34 @@ interface Tab {
   id: string;
   title: string;
   
-  // History Stacks
-  historyStack: string[];
-  futureStack: string[];
+  // Every topic visited in this tab, with all branches
+  history: HistoryTree;
   
   // Content State
   currentTopic: string;
+  sense: string | null; // Meaning of a topic with several; each meaning is its own article
+  senseOptions: string[]; // Common meanings of the topic, offered in the sense picker
+  senseContext: SenseContext | null; // Where a followed word was read, until its meaning is worked out
   content: string;
   isLoading: boolean;
   error: string | null;
+  errorKind: GenerationErrorKind | null; // Set when the error came from a model call; its kind decides whether Retry is offered
   generationTime: number | null;
+  promptVersion: string | null;
   groundingSources: any[];
+
+  // Versions
+  versionHistory: { key: string; versions: ArticleVersion[] } | null; // All cached generations of the article, newest first
+  viewedVersion: number; // Index into versionHistory.versions
+  compareVersion: number | null; // Version diffed against the viewed one, if any
+  isRegenerating: boolean; // Skip the cache for the next load
   
   // Mode & Context
   isWebSearchMode: boolean;
+  isStructuredMode: boolean; // Full sectioned article instead of a single paragraph
   isEbookMode: boolean;
   documentName: string | null;
+  documentId: string | null; // Key of the document payload in IndexedDB, for session restore
   documentContext: string | null;
   // Merged imageData into a general fileData for both images and documents without text
   fileData: FileData | null;
@@ -72,8 +157,15 @@ interface Tab {
   webSectionIndex: number;
   generatedDiagrams: Record<string, string>; // prompt -> base64
 
+  // Passages in the uploaded document or read web page that look like instructions to the model
+  injectionFindings: InjectionFinding[];
+
   // Settings
   language: string;
+  depth: ReadingDepth; // Reading level of wiki definitions and articles
+
+  // Token usage of every model call made for this tab
+  usage: UsageTotals;
 }
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -81,17 +173,27 @@ const generateId = () => Math.random().toString(36).substr(2, 9);
 const createNewTab = (id: string = generateId()): Tab => ({
   id,
   title: 'New Tab',
-  historyStack: [],
-  futureStack: [],
+  history: EMPTY_HISTORY_TREE,
   currentTopic: '',
+  sense: null,
+  senseOptions: [],
+  senseContext: null,
   content: '',
   isLoading: false,
   error: null,
+  errorKind: null,
   generationTime: null,
+  promptVersion: null,
   groundingSources: [],
+  versionHistory: null,
+  viewedVersion: 0,
+  compareVersion: null,
+  isRegenerating: false,
   isWebSearchMode: false,
+  isStructuredMode: false,
   isEbookMode: false,
   documentName: null,
+  documentId: null,
   documentContext: null,
   fileData: null,
   ebookPages: [],
@@ -99,23 +201,228 @@ const createNewTab = (id: string = generateId()): Tab => ({
   webUrl: null,
   webSectionIndex: 0,
   generatedDiagrams: {},
+  injectionFindings: [],
   language: 'English',
+  depth: DEFAULT_READING_DEPTH,
+  usage: EMPTY_USAGE_TOTALS,
 });
 
+// What survives a reload in localStorage. Generated content comes back from the article cache and
+// document payloads from IndexedDB, so neither is part of the snapshot.
+type TabSnapshot = Omit<Tab,
+  'content' | 'isLoading' | 'error' | 'errorKind' | 'groundingSources' | 'generatedDiagrams'
+  | 'versionHistory' | 'viewedVersion' | 'compareVersion' | 'isRegenerating'
+  | 'documentContext' | 'fileData' | 'ebookPages' | 'injectionFindings'>;
+
+const toSnapshot = (tab: Tab): TabSnapshot => {
+  const {
+    content, isLoading, error, errorKind, groundingSources, generatedDiagrams,
+    versionHistory, viewedVersion, compareVersion, isRegenerating,
+    documentContext, fileData, ebookPages, injectionFindings,
+    ...snapshot
+  } = tab;
+  return snapshot;
+};
+
+// Sessions saved before history became a tree still carry the old back and forward stacks.
+type LegacySnapshot = TabSnapshot & { historyStack?: string[]; futureStack?: string[] };
+
+// Defaults first, so snapshots saved before a field existed still produce a complete tab.
+const fromSnapshot = ({ historyStack, futureStack, ...snapshot }: LegacySnapshot): Tab => ({
+  ...createNewTab(snapshot.id),
+  ...snapshot,
+  history: parseHistoryTree(snapshot.history) ?? historyFromStacks(historyStack ?? [], snapshot.currentTopic, futureStack ?? []),
+});
+
+// Reattaches a stored document; a tab whose document has gone missing falls back to plain browsing.
+const restoredDocumentFields = (snapshot: TabSnapshot, stored: StoredDocument | null): Partial<Tab> => {
+  if (!snapshot.documentId) return {};
+  if (!stored) return { documentId: null, documentName: null, isEbookMode: false };
+  return {
+    documentContext: stored.documentContext,
+    fileData: stored.fileData,
+    ebookPages: stored.ebookPages,
+    injectionFindings: stored.injectionFindings,
+  };
+};
+
+const restoredSession = loadSession<LegacySnapshot>();
+
+const toTrail = (tab: Tab): TabTrail => ({
+  title: tab.title,
+  currentTopic: tab.currentTopic,
+  sense: tab.sense,
+  history: tab.history,
+  language: tab.language,
+  depth: tab.depth,
+  isWebSearchMode: tab.isWebSearchMode,
+  isStructuredMode: tab.isStructuredMode,
+  webSectionIndex: tab.webSectionIndex,
+});
+
+const fromTrail = (trail: TabTrail): Tab => ({ ...createNewTab(), ...trail });
+
+// Identifies a generated article in the cache: mode, document, topic and meaning, web section, language and depth.
+const articleCacheKey = (tab: Tab) =>
+  `${tab.isWebSearchMode ? 'web:' : 'wiki:'}${tab.isStructuredMode ? 'article:' : ''}${tab.documentName ? `doc(${tab.documentName}):` : ''}${tab.currentTopic.toLowerCase()}${tab.sense ? `(${tab.sense.toLowerCase()})` : ''}:${tab.webSectionIndex}:${tab.language}:${tab.depth}`;
+
+const YOUTUBE_URL_PATTERN = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+$/i;
+
+// Plain wiki topics, as opposed to documents, URLs or web search. Only these have structured mode,
+// reading depth and prefetching.
+const isWikiTopicTab = (tab: Tab) =>
+  !tab.isWebSearchMode && !tab.documentName && !tab.fileData && tab.webUrl === null && !YOUTUBE_URL_PATTERN.test(tab.currentTopic.trim());
+
+// Local eBook pages are shown as-is (or translated on the fly) and never cached.
+const isLocalPageTab = (tab: Tab) => tab.isEbookMode && !tab.isWebSearchMode && !tab.fileData && !!tab.documentContext;
+
+// The route fields of a tab's view, whether or not it can be shared.
+const viewRoute = (tab: Tab): Route => ({
+  mode: tab.isWebSearchMode ? 'search' : tab.isStructuredMode ? 'article' : 'wiki',
+  topic: tab.currentTopic,
+  language: tab.language,
+  depth: tab.depth,
+  section: tab.webSectionIndex,
+  ...(tab.sense ? { sense: tab.sense } : {}),
+});
+
+// The link for a tab's current view, or null for tabs that cannot be shared (documents, empty tabs).
+const routeOf = (tab: Tab): Route | null =>
+  !tab.currentTopic || tab.documentName || tab.fileData ? null : viewRoute(tab);
+
+// What a bookmark of the tab's view points at: its route, plus the document for answers and pages.
+const bookmarkTarget = (tab: Tab): { route: Route; document: BookmarkDocument | null } | null => {
+  if (!tab.currentTopic) return null;
+  const document = tab.documentName
+    ? { name: tab.documentName, id: tab.documentId, page: isLocalPageTab(tab) ? tab.currentPage : null }
+    : null;
+  return { route: viewRoute(tab), document };
+};
+
+// How a bookmarked or annotated view is listed: its topic and meaning, or its document and page.
+const viewTitle = ({ route, document }: { route: Route; document: BookmarkDocument | null }) => {
+  const topic = route.sense ? `${route.topic} (${route.sense})` : route.topic;
+  if (!document) return topic;
+  return document.page !== null ? `${document.name}, page ${document.page + 1}` : `${topic} (${document.name})`;
+};
+
+// Identifies the article or document page that highlights belong to. Document pages share a cache key,
+// so the page is added.
+const annotationKey = (tab: Tab) =>
+  isLocalPageTab(tab) ? `${articleCacheKey(tab)}:page${tab.currentPage}` : articleCacheKey(tab);
+
+// What a tab's next request sends beyond its prompt: the whole document with every question, or the
+// uploaded file. Pages of a document are read locally, and links are not asked of the document.
+const documentInput = (tab: Tab): { mode: SettingsMode; tokens: number } | null => {
+  if (isLocalPageTab(tab) || YOUTUBE_URL_PATTERN.test(tab.currentTopic.trim())) return null;
+  if (tab.fileData) {
+    // Images cost a fixed amount; other files roughly their decoded size.
+    const isImage = tab.fileData.mimeType.startsWith('image/');
+    return { mode: isImage ? 'image-analysis' : 'document-query', tokens: isImage ? 260 : Math.ceil(estimateTokens(tab.fileData.base64) * 0.75) };
+  }
+  return tab.documentContext ? { mode: 'document-query', tokens: estimateTokens(tab.documentContext) } : null;
+};
+
+// The tab fields that show a route; the caller decides what happens to history.
+const routeFields = (route: Route): Partial<Tab> => ({
+  currentTopic: route.topic,
+  sense: route.sense ?? null,
+  senseOptions: [],
+  senseContext: null,
+  title: route.topic,
+  isWebSearchMode: route.mode === 'search',
+  isStructuredMode: route.mode === 'article',
+  language: route.language,
+  depth: route.depth,
+  webSectionIndex: route.section,
+  webUrl: /^(https?:\/\/[^\s]+\.[^\s]+)/i.test(route.topic) ? route.topic : null,
+  content: '',
+  isLoading: true,
+  error: null,
+  errorKind: null,
+  generatedDiagrams: {},
+});
+
+const isSameRoute = (tab: Tab, route: Route) => {
+  const tabRoute = routeOf(tab);
+  return !!tabRoute && formatRoute(tabRoute) === formatRoute(route);
+};
+
+// A link opens in a new tab, unless a restored tab already shows it (as after a reload).
+const restoredTabs = restoredSession?.tabs.map(fromSnapshot) ?? [];
+const initialRoute = parseRoute(window.location.hash);
+const linkedTab = initialRoute
+  ? restoredTabs.find(tab => isSameRoute(tab, initialRoute))
+    ?? { ...createNewTab(), ...routeFields(initialRoute), history: startHistory(initialRoute.topic) }
+  : null;
+
 const App: React.FC = () => {
   // Tab State Management
-  const [tabs, setTabs] = useState<Tab[]>([createNewTab('default-tab')]);
-  const [activeTabId, setActiveTabId] = useState<string>('default-tab');
+  const [tabs, setTabs] = useState<Tab[]>(() => {
+    if (linkedTab && !restoredTabs.includes(linkedTab)) return [...restoredTabs, linkedTab];
+    return restoredTabs.length > 0 ? restoredTabs : [createNewTab('default-tab')];
+  });
+  const [activeTabId, setActiveTabId] = useState<string>(() => {
+    if (linkedTab) return linkedTab.id;
+    return restoredSession
+      ? (restoredSession.tabs.some(t => t.id === restoredSession.activeTabId) ? restoredSession.activeTabId : restoredSession.tabs[0].id)
+      : 'default-tab';
+  });
+  const [closedTabs, setClosedTabs] = useState<TabSnapshot[]>(restoredSession?.closedTabs ?? []);
   
-  const [cache, setCache] = useState<Map<string, CachedTopicState>>(new Map());
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [isViewerOpen, setIsViewerOpen] = useState<boolean>(false);
 
+  // Usage Accounting
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>(loadUsageBudget);
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState<boolean>(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isCacheManagerOpen, setIsCacheManagerOpen] = useState<boolean>(false);
+  const [isBundlePanelOpen, setIsBundlePanelOpen] = useState<boolean>(false);
+  const [isGraphOpen, setIsGraphOpen] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+
+  // Every topic-to-topic step in any tab, for the exploration graph
+  const [transitions, setTransitions] = useState<TopicTransition[]>(loadTransitions);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(loadBookmarks);
+  const [collections, setCollections] = useState<BookmarkCollection[]>(loadCollections);
+  const [isBookmarksOpen, setIsBookmarksOpen] = useState<boolean>(false);
+  const [annotations, setAnnotations] = useState<Annotation[]>(loadAnnotations);
+  const [isNotesOpen, setIsNotesOpen] = useState<boolean>(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState<boolean>(false);
+
+  // The word preview card, if one is open
+  const [preview, setPreview] = useState<{ topic: string; anchor: PreviewAnchor; sentence: string | null; error: string | null } | null>(null);
+  const previewHideTimerRef = useRef<number | null>(null);
+  // Aborts the open card's preview generation, which is not worth paying for once the card is gone
+  const previewControllerRef = useRef<AbortController | null>(null);
+
   const finalContentRef = useRef<string>('');
   const finalSourcesRef = useRef<any[]>([]);
   
-  // Track diagrams currently being generated to avoid duplicate requests
-  const pendingDiagramsRef = useRef<Set<string>>(new Set());
+  // Track `${tabId}:${prompt}` pairs still waiting for a diagram, with the signal of their request, so effect
+  // re-runs do not request it twice. A request whose signal was aborted no longer counts.
+  const pendingDiagramsRef = useRef<Map<string, AbortSignal | undefined>>(new Map());
+  // Signal for diagram requests belonging to the article currently on screen
+  const diagramSignalRef = useRef<AbortSignal | null>(null);
+  // How often the reader has hovered each word (lowercase), which steers prefetching
+  const hoverCountsRef = useRef<Map<string, number>>(new Map());
+  // Read by the prefetcher between generations, so its own usage does not restart it
+  const sessionUsageRef = useRef<UsageTotals>(EMPTY_USAGE_TOTALS);
+  sessionUsageRef.current = sessionUsage;
+  // Read by the browser history listener, which is registered once
+  const tabsRef = useRef<Tab[]>(tabs);
+  tabsRef.current = tabs;
+  const activeTabIdRef = useRef<string>(activeTabId);
+  activeTabIdRef.current = activeTabId;
+  // The tab and topic last written to the URL, to tell navigation (a new history entry) from other changes
+  const lastRouteRef = useRef<{ tabId: string; topic: string } | null>(null);
+  // Set while showing a view the browser navigated to, so it is not pushed again
+  const isPoppingRouteRef = useRef<boolean>(false);
+  // What [ and ] do in the current view; null where there is no previous or next page or section
+  const pageKeysRef = useRef<{ previous: (() => void) | null; next: (() => void) | null }>({ previous: null, next: null });
 
   const updateActiveTab = useCallback((updates: Partial<Tab>) => {
     setTabs(prevTabs => prevTabs.map(tab => 
@@ -125,25 +432,182 @@ const App: React.FC = () => {
 
   const activeTab = tabs.find(t => t.id === activeTabId) || tabs[0];
 
+  const recordUsage = useCallback((tabId: string, record: UsageRecord) => {
+    setTabs(prevTabs => prevTabs.map(tab =>
+      tab.id === tabId ? { ...tab, usage: addUsage(tab.usage, record) } : tab
+    ));
+    setSessionUsage(prev => addUsage(prev, record));
+    setUsageLog(prev => [record, ...prev].slice(0, 50));
+  }, []);
+
+  const handleBudgetChange = useCallback((budget: UsageBudget) => {
+    setUsageBudget(budget);
+    saveUsageBudget(budget);
+  }, []);
+
   useEffect(() => {
     if (!activeTab.currentTopic && activeTab.id === 'default-tab' && !activeTab.isLoading && !activeTab.content) {
        updateActiveTab({ currentTopic: 'Hypertext', isLoading: true, title: 'Hypertext' });
+       setTransitions(prev => addTransition(prev, { from: null, to: 'Hypertext', tabId: activeTab.id, at: Date.now() }));
     }
   }, []);
 
+  useEffect(() => {
+    saveTransitions(transitions);
+  }, [transitions]);
+
+  useEffect(() => {
+    saveBookmarks(bookmarks);
+  }, [bookmarks]);
+
+  useEffect(() => {
+    saveCollections(collections);
+  }, [collections]);
+
+  useEffect(() => {
+    saveAnnotations(annotations);
+  }, [annotations]);
+
+  // --- Session Restore ---
+  // Reattach stored documents to the restored tabs, then load the active tab's content.
+  useEffect(() => {
+    if (!restoredSession) return;
+    const restore = async () => {
+      const documents = await Promise.all(restoredSession.tabs.map(tab => tab.documentId ? loadDocument(tab.documentId) : null));
+      setTabs(prev => prev.map(tab => {
+        const index = restoredSession.tabs.findIndex(t => t.id === tab.id);
+        if (index === -1) return tab;
+        return {
+          ...tab,
+          ...restoredDocumentFields(restoredSession.tabs[index], documents[index]),
+          // The tab shown now, which may not be the one shown at startup, loads if it has not already.
+          isLoading: tab.isLoading || (tab.id === activeTabIdRef.current && !!tab.currentTopic && !tab.content),
+        };
+      }));
+
+      // Documents of bookmarked answers and pages are kept too, so the bookmarks reopen with them.
+      const referenced = [
+        ...[...restoredSession.tabs, ...restoredSession.closedTabs].map(tab => tab.documentId),
+        ...bookmarks.map(bookmark => bookmark.document?.id),
+      ];
+      pruneDocuments(new Set(referenced.filter((id): id is string => !!id)));
+    };
+    restore();
+  }, []);
+
+  // Only the light snapshot is written, so streaming content updates do not touch localStorage.
+  const sessionJson = JSON.stringify({ version: 1, activeTabId, tabs: tabs.map(toSnapshot), closedTabs });
+  useEffect(() => {
+    saveSession(JSON.parse(sessionJson));
+  }, [sessionJson]);
+
+  // --- URL Routing ---
+  // Keep the URL hash on the active tab's view. Moving to a new topic adds a browser history entry;
+  // switching tabs, languages or modes only replaces the current one.
+  const activeRoute = routeOf(activeTab);
+  const activeHash = activeRoute ? formatRoute(activeRoute) : '';
+  useEffect(() => {
+    const state: RouteHistoryState = { tabId: activeTab.id, nodeId: activeTab.history.currentId };
+    const last = lastRouteRef.current;
+    const isNavigation = !isPoppingRouteRef.current && !!last?.topic && last.tabId === activeTab.id && last.topic !== activeTab.currentTopic;
+    lastRouteRef.current = { tabId: activeTab.id, topic: activeTab.currentTopic };
+    isPoppingRouteRef.current = false;
+
+    const url = activeHash || window.location.pathname + window.location.search;
+    if (isNavigation && activeHash !== window.location.hash) {
+      window.history.pushState(state, '', url);
+    } else {
+      window.history.replaceState(state, '', url);
+    }
+  }, [activeHash, activeTab.id, activeTab.history.currentId]);
+
+  // Browser Back and Forward show the view in the URL, in the tab it came from when that tab is still open.
+  // A link typed or pasted into the address bar has no history state and opens in a new tab.
+  useEffect(() => {
+    const handlePopState = (event: PopStateEvent) => {
+      const route = parseRoute(window.location.hash);
+      if (!route) return;
+      const state: RouteHistoryState | null = event.state;
+      const shownTab = tabsRef.current.find(t => t.id === activeTabIdRef.current) ?? tabsRef.current[0];
+
+      if (!state) {
+        if (isSameRoute(shownTab, route)) return;
+        const linked: Tab = { ...createNewTab(), ...routeFields(route), history: startHistory(route.topic) };
+        isPoppingRouteRef.current = true;
+        setTabs(prev => [...prev, linked]);
+        setActiveTabId(linked.id);
+        return;
+      }
+
+      const tab = tabsRef.current.find(t => t.id === state.tabId) ?? shownTab;
+      const isShown = isSameRoute(tab, route) && (!state.nodeId || state.nodeId === tab.history.currentId);
+      if (isShown && tab.id === shownTab.id) return;
+
+      isPoppingRouteRef.current = true;
+      setActiveTabId(tab.id);
+      if (isShown) return;
+
+      const history = state.tabId === tab.id && state.nodeId && tab.history.nodes[state.nodeId]
+        ? jumpToHistoryNode(tab.history, state.nodeId)
+        : visitTopic(tab.history, route.topic);
+      setTabs(prev => prev.map(t => t.id === tab.id ? { ...t, ...routeFields(route), history } : t));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // --- Keyboard Shortcuts ---
+  // Ctrl/Cmd+K opens the command palette from anywhere. Outside text fields, [ and ] go to the
+  // previous and next page of a document or section of a web page.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isPaletteShortcut(e)) {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const step = e.key === '[' ? pageKeysRef.current.previous : e.key === ']' ? pageKeysRef.current.next : null;
+      if (!step) return;
+      e.preventDefault();
+      step();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Abort outstanding diagram requests when the article they belong to goes away
+  // (navigation, tab switch or close, language or mode change).
+  useEffect(() => {
+    const controller = new AbortController();
+    diagramSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, [
+      activeTab.id,
+      activeTab.currentTopic,
+      activeTab.webSectionIndex,
+      activeTab.language,
+      activeTab.isWebSearchMode,
+      activeTab.isStructuredMode
+  ]);
+
   // --- Diagram Generation Effect ---
   useEffect(() => {
      if (!activeTab.content) return;
      
      // Detect [DIAGRAM: ...] tags
-     const regex = /\[DIAGRAM:\s*(.*?)\]/g;
-     let match;
-     while ((match = regex.exec(activeTab.content)) !== null) {
-       const prompt = match[1];
-       if (!activeTab.generatedDiagrams[prompt] && !pendingDiagramsRef.current.has(prompt)) {
-         // Start generation
-         pendingDiagramsRef.current.add(prompt);
-         generateInfoDiagram(prompt).then(base64 => {
+     for (const prompt of extractDiagramPrompts(activeTab.content)) {
+       const pendingKey = `${activeTab.id}:${prompt}`;
+       const pending = pendingDiagramsRef.current.get(pendingKey);
+       const isPending = pendingDiagramsRef.current.has(pendingKey) && !pending?.aborted;
+       if (!activeTab.generatedDiagrams[prompt] && !isPending) {
+         // Reuse a stored diagram, join a generation another tab already started, or start one
+         const signal = diagramSignalRef.current ?? undefined;
+         pendingDiagramsRef.current.set(pendingKey, signal);
+         loadOrGenerateDiagram(prompt, () => generateInfoDiagram(prompt, {
+           signal,
+           onUsage: record => recordUsage(activeTab.id, record),
+         }), signal).then(base64 => {
            setTabs(prev => prev.map(t => {
              if (t.id === activeTab.id) {
                return {
@@ -153,9 +617,11 @@ const App: React.FC = () => {
              }
              return t;
            }));
-         }).catch(e => console.error("Diagram failed", e))
+         }).catch(e => {
+           if (!(e instanceof GenerationError && e.kind === 'aborted')) console.error("Diagram failed", e);
+         })
          .finally(() => {
-           pendingDiagramsRef.current.delete(prompt);
+           if (pendingDiagramsRef.current.get(pendingKey) === signal) pendingDiagramsRef.current.delete(pendingKey);
          });
        }
      }
@@ -177,10 +643,14 @@ const App: React.FC = () => {
           if (activeTab.isLoading) {
               // Trigger translation
               let isCancelled = false;
+              const controller = new AbortController();
               const fetchTranslation = async () => {
                  let acc = '';
                  try {
-                     for await (const event of streamTranslation(pageContent, activeTab.language)) {
+                     for await (const event of streamTranslation(pageContent, activeTab.language, {
+                         signal: controller.signal,
+                         onUsage: record => recordUsage(activeTabId, record),
+                     })) {
                          if (isCancelled) break;
                          if (event.type === 'chunk') {
                              acc += event.text;
@@ -189,11 +659,18 @@ const App: React.FC = () => {
                      }
                      updateActiveTab({ isLoading: false });
                  } catch (e) {
-                     if (!isCancelled) updateActiveTab({ error: "Translation failed", isLoading: false });
+                     if (!isCancelled) updateActiveTab({
+                         error: "Translation failed",
+                         errorKind: e instanceof GenerationError ? e.kind : null,
+                         isLoading: false
+                     });
                  }
               };
               fetchTranslation();
-              return () => { isCancelled = true; };
+              return () => {
+                  isCancelled = true;
+                  controller.abort();
+              };
           }
       } else {
           // Standard English display
@@ -201,7 +678,8 @@ const App: React.FC = () => {
             updateActiveTab({ 
                 content: pageContent, 
                 isLoading: false, 
-                error: null, 
+                error: null,
+                errorKind: null,
                 groundingSources: [] 
             });
           }
@@ -209,44 +687,97 @@ const App: React.FC = () => {
       return;
     }
 
-    const cacheKey = `${activeTab.isWebSearchMode ? 'web:' : 'wiki:'}${activeTab.documentName ? `doc(${activeTab.documentName}):` : ''}${activeTab.currentTopic.toLowerCase()}:${activeTab.webSectionIndex}:${activeTab.language}`;
-    
-    // Simple cache check
-    if (cache.has(cacheKey) && !activeTab.isLoading && activeTab.content === '') {
-      const cachedState = cache.get(cacheKey)!;
-      updateActiveTab({
-        content: cachedState.content,
-        generationTime: cachedState.generationTime,
-        groundingSources: cachedState.sources ?? [],
-        error: null,
-        isLoading: false,
-        title: activeTab.currentTopic
-      });
-      return;
-    }
-
     if (!activeTab.isLoading) return;
 
     let isCancelled = false;
+    // Aborting stops the network request itself, not just the UI updates, so abandoned generations stop consuming tokens.
+    const controller = new AbortController();
+    // The model that answered, recorded with the article version.
+    let model: string | undefined;
+    const options = {
+      signal: controller.signal,
+      onUsage: (record: UsageRecord) => {
+        model = record.model;
+        recordUsage(activeTabId, record);
+      },
+    };
     
     const fetchData = async () => {
+      const trimmedTopic = activeTab.currentTopic.trim();
+      const isYouTubeUrl = YOUTUBE_URL_PATTERN.test(trimmedTopic);
+      // Robust URL detection
+      const isUrl = /^(https?:\/\/[^\s]+\.[^\s]+)/i.test(trimmedTopic);
+      const isWebPage = isUrl && !isYouTubeUrl && !activeTab.documentContext && !activeTab.fileData;
+
+      // A word followed from an article is matched to the meaning its sentence uses, even when its general
+      // article is cached: prefetching stores the words of an article under that key. The meanings are
+      // remembered per sentence, so a repeat click makes no model call.
+      let sense = activeTab.sense;
+      const senseContext = activeTab.senseContext;
+      if (senseContext) {
+        let senseOptions: string[] = [];
+        try {
+          const result = await loadSenses(activeTab.currentTopic, senseContext, activeTab.language,
+            () => detectSenses(activeTab.currentTopic, senseContext, activeTab.language, options));
+          // A term with one meaning keeps the plain cache key, which prefetched articles are stored under.
+          if (result.senses.length > 1) {
+            sense = result.senses[result.chosen];
+            senseOptions = result.senses;
+          }
+        } catch (e) {
+          // Without the meanings the general definition is still worth showing.
+          if (!isCancelled) console.warn(`Could not work out which meaning of "${activeTab.currentTopic}" was meant.`, e);
+        }
+        if (isCancelled) return;
+        setTabs(prev => prev.map(t => t.id === activeTabId ? {
+            ...t,
+            sense,
+            senseOptions,
+            senseContext: null,
+            history: setCurrentSense(t.history, sense)
+        } : t));
+      }
+      const cacheKey = articleCacheKey({ ...activeTab, sense });
+
+      // Repeat lookups are served from the persistent cache without calling the model, unless regenerating.
+      const skipCache = activeTab.isRegenerating;
+      if (skipCache) updateActiveTab({ isRegenerating: false });
+      const cached = skipCache ? null : await getCachedArticle(cacheKey);
+      if (isCancelled) return;
+      if (cached) {
+        updateActiveTab({
+          versionHistory: { key: cacheKey, versions: articleVersions(cached) },
+          viewedVersion: 0,
+          compareVersion: null,
+          content: cached.content,
+          generationTime: cached.generationTime,
+          promptVersion: cached.promptVersion ?? null,
+          groundingSources: cached.sources,
+          error: null,
+          errorKind: null,
+          isLoading: false,
+          title: activeTab.documentName || activeTab.currentTopic,
+          ...(activeTab.documentContext ? {} : { injectionFindings: isWebPage ? detectInjectionAttempts(cached.content) : [] })
+        });
+        return;
+      }
+
       finalContentRef.current = '';
       finalSourcesRef.current = [];
       const startTime = performance.now();
       let accumulatedContent = '';
+      let hasFailed = false;
+      let promptVersion: string | null = null;
+      let pageFindings: InjectionFinding[] = [];
 
       try {
         const topic = activeTab.currentTopic;
-        const trimmedTopic = topic.trim();
         const lang = activeTab.language;
-        
-        const isYouTubeUrl = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+$/i.test(trimmedTopic);
-        // Robust URL detection
-        const isUrl = /^(https?:\/\/[^\s]+\.[^\s]+)/i.test(trimmedTopic);
 
         // Case 1: Image Analysis (explicitly treated as such if mimeType is image)
         if (activeTab.fileData && activeTab.fileData.mimeType.startsWith('image/')) {
-           for await (const event of streamImageAnalysis(topic, activeTab.fileData.base64, activeTab.fileData.mimeType, lang)) {
+           promptVersion = promptSignature('image-analysis');
+           for await (const event of streamImageAnalysis(topic, activeTab.fileData.base64, activeTab.fileData.mimeType, lang, options)) {
              if (isCancelled) break;
              if (event.type === 'chunk') {
                 accumulatedContent += event.text;
@@ -257,7 +788,8 @@ const App: React.FC = () => {
         } 
         // Case 2: YouTube Video
         else if (isYouTubeUrl) {
-           for await (const event of streamYouTubeSummary(trimmedTopic, lang)) {
+           promptVersion = promptSignature('youtube');
+           for await (const event of streamYouTubeSummary(trimmedTopic, lang, options)) {
             if (isCancelled) break;
             if (event.type === 'chunk') {
                 if (event.text) accumulatedContent += event.text;
@@ -272,8 +804,9 @@ const App: React.FC = () => {
           }
         } 
         // Case 3: External URL Reading
-        else if (isUrl && !activeTab.documentContext && !activeTab.fileData) { 
-             for await (const event of streamWebResource(trimmedTopic, activeTab.webSectionIndex, lang)) {
+        else if (isWebPage) { 
+             promptVersion = promptSignature('web-reader');
+             for await (const event of streamWebResource(trimmedTopic, activeTab.webSectionIndex, lang, options)) {
                 if (isCancelled) break;
                 if (event.type === 'chunk') {
                     if (event.text) accumulatedContent += event.text;
@@ -286,6 +819,7 @@ const App: React.FC = () => {
                     } : t));
                 }
             }
+            pageFindings = detectInjectionAttempts(accumulatedContent);
         } 
         // Case 4: Web Search Mode (Grounding)
         else if (activeTab.isWebSearchMode) {
@@ -294,8 +828,9 @@ const App: React.FC = () => {
              const params = activeTab.fileData 
                 ? { mimeType: activeTab.fileData.mimeType, data: activeTab.fileData.base64 } 
                 : undefined;
+             promptVersion = promptSignature(activeTab.documentContext ? 'document-query' : 'file-query');
              
-            for await (const event of streamInDocumentQuery(topic, activeTab.documentContext, params, lang)) {
+            for await (const event of streamInDocumentQuery(topic, activeTab.documentContext, params, lang, options)) {
               if (isCancelled) break;
               if (event.type === 'chunk') {
                 accumulatedContent += event.text;
@@ -305,7 +840,8 @@ const App: React.FC = () => {
             }
           } else {
              // Standard Web Search
-             const { content, sources } = await performAiSearch(topic, lang);
+             promptVersion = promptSignature('web-search');
+             const { content, sources } = await performAiSearch(topic, lang, options);
              if (isCancelled) return;
              finalContentRef.current = content;
              finalSourcesRef.current = sources;
@@ -322,8 +858,9 @@ const App: React.FC = () => {
               const params = activeTab.fileData 
                 ? { mimeType: activeTab.fileData.mimeType, data: activeTab.fileData.base64 } 
                 : undefined;
+              promptVersion = promptSignature(activeTab.documentContext ? 'document-query' : 'file-query');
 
-              for await (const event of streamInDocumentQuery(topic, activeTab.documentContext, params, lang)) {
+              for await (const event of streamInDocumentQuery(topic, activeTab.documentContext, params, lang, options)) {
                 if (isCancelled) break;
                 if (event.type === 'chunk') {
                    accumulatedContent += event.text;
@@ -332,8 +869,12 @@ const App: React.FC = () => {
                 }
               }
            } else {
-              // Wiki Definition
-              for await (const event of streamWikiDefinition(topic, lang)) {
+              // Wiki Definition, or a full sectioned article
+              promptVersion = promptSignature(activeTab.isStructuredMode ? 'article' : 'wiki');
+              const stream = activeTab.isStructuredMode
+                ? streamStructuredArticle(topic, lang, activeTab.depth, sense, options)
+                : streamWikiDefinition(topic, lang, activeTab.depth, sense, options);
+              for await (const event of stream) {
                   if (isCancelled) break;
                   if (event.type === 'chunk') {
                     if (event.text) accumulatedContent += event.text;
@@ -349,9 +890,14 @@ const App: React.FC = () => {
            }
         }
       } catch (e: unknown) {
+        hasFailed = true;
         if (!isCancelled) {
           const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred';
-          updateActiveTab({ error: errorMessage, isLoading: false });
+          updateActiveTab({
+            error: errorMessage,
+            errorKind: e instanceof GenerationError ? e.kind : null,
+            isLoading: false
+          });
           console.error(e);
         }
       } finally {
@@ -359,21 +905,34 @@ const App: React.FC = () => {
           const endTime = performance.now();
           const genTime = endTime - startTime;
           
-          setCache(prev => {
-             const newCache = new Map(prev);
-             newCache.set(cacheKey, { 
-                 content: finalContentRef.current, 
-                 generationTime: genTime, 
-                 sources: finalSourcesRef.current,
-                 language: activeTab.language 
-             });
-             return newCache;
+          // Failed generations are not cached so that a retry asks the model again.
+          if (!hasFailed && finalContentRef.current) putCachedArticle({
+              key: cacheKey,
+              topic: activeTab.documentName ? `${activeTab.currentTopic} (${activeTab.documentName})` : sense ? `${activeTab.currentTopic} (${sense})` : activeTab.currentTopic,
+              content: finalContentRef.current,
+              generationTime: genTime,
+              sources: finalSourcesRef.current,
+              language: activeTab.language,
+              promptVersion: promptVersion ?? undefined,
+              model
+          }).then(entry => {
+              if (!entry) return;
+              setTabs(prev => prev.map(t => t.id === activeTabId ? {
+                  ...t,
+                  versionHistory: { key: cacheKey, versions: articleVersions(entry) },
+                  viewedVersion: 0,
+                  compareVersion: null
+              } : t));
           });
 
           updateActiveTab({ 
               isLoading: false, 
               generationTime: genTime,
-              title: activeTab.documentName || activeTab.currentTopic 
+              promptVersion,
+              title: activeTab.documentName || activeTab.currentTopic,
+              // Document findings are computed once on upload. The app never sees a web page's own text, so
+              // the model's reading of it is scanned instead.
+              ...(activeTab.documentContext ? {} : { injectionFindings: pageFindings })
           });
         }
       }
@@ -381,21 +940,117 @@ const App: React.FC = () => {
 
     fetchData();
 
-    return () => { isCancelled = true; };
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
   }, [
       activeTabId, 
       activeTab.currentTopic, 
       activeTab.isLoading, 
       activeTab.isWebSearchMode, 
+      activeTab.isStructuredMode,
       activeTab.isEbookMode, 
       activeTab.currentPage,
       activeTab.documentContext,
       activeTab.fileData,
       activeTab.webSectionIndex,
-      activeTab.language
+      activeTab.language,
+      activeTab.depth
+  ]);
+
+  // --- Idle Prefetch ---
+  // While the reader takes in a finished article, generate the words they are most likely to click next
+  // into the article cache. Runs one word at a time in idle periods, and any load in any tab cancels it.
+  const isAnyTabLoading = tabs.some(t => t.isLoading);
+  useEffect(() => {
+    const settings = getPrefetchSettings();
+    if (!settings.enabled || isAnyTabLoading || !activeTab.content || activeTab.error || !isWikiTopicTab(activeTab)) return;
+
+    const tab = activeTab;
+    const controller = new AbortController();
+    const prefetch = async () => {
+      const attempted = new Set([tab.currentTopic.toLowerCase()]);
+      let fetched = 0;
+      while (fetched < settings.perArticle && remainingPrefetches() > 0) {
+        await waitForIdle(controller.signal);
+        if (controller.signal.aborted) return;
+
+        // Ranked again each time, so words hovered in the meantime move up.
+        const word = rankPrefetchCandidates(tab.content, hoverCountsRef.current, attempted)[0];
+        if (!word) return;
+        attempted.add(word.toLowerCase());
+
+        const target: Tab = { ...tab, currentTopic: word, sense: null, webSectionIndex: 0 };
+        const key = articleCacheKey(target);
+        if (await hasCachedArticle(key)) continue;
+
+        const model = resolveModel('wiki', getModelProvider().models);
+        if (checkBudget(usageBudget, sessionUsageRef.current, model, estimateTokens(word) + 200)) return;
+
+        let content = '';
+        let sources: any[] = [];
+        let usedModel: string | undefined;
+        const startTime = performance.now();
+        const options = {
+          signal: controller.signal,
+          onUsage: (record: UsageRecord) => {
+            usedModel = record.model;
+            recordUsage(tab.id, record);
+          },
+        };
+        try {
+          const stream = tab.isStructuredMode
+            ? streamStructuredArticle(word, tab.language, tab.depth, null, options)
+            : streamWikiDefinition(word, tab.language, tab.depth, null, options);
+          for await (const event of stream) {
+            if (event.type === 'chunk') {
+              content += event.text;
+              if (event.sources) sources = event.sources;
+            }
+          }
+        } catch (e) {
+          // A failed prefetch is not worth retrying in the background; the click will try again.
+          if (!(e instanceof GenerationError && e.kind === 'aborted')) console.warn(`Prefetching "${word}" failed.`, e);
+          return;
+        }
+        if (controller.signal.aborted || !content) return;
+
+        recordPrefetch();
+        fetched++;
+        await putCachedArticle({
+          key,
+          topic: word,
+          content,
+          generationTime: performance.now() - startTime,
+          sources,
+          language: tab.language,
+          promptVersion: promptSignature(tab.isStructuredMode ? 'article' : 'wiki'),
+          model: usedModel,
+        });
+      }
+    };
+    prefetch();
+
+    return () => controller.abort();
+  }, [
+      activeTab.id,
+      activeTab.content,
+      activeTab.error,
+      activeTab.language,
+      activeTab.depth,
+      activeTab.isStructuredMode,
+      isAnyTabLoading,
+      usageBudget
   ]);
 
-  const handleTabSwitch = (id: string) => setActiveTabId(id);
+  const handleTabSwitch = (id: string) => {
+    setActiveTabId(id);
+    // Restored tabs load their content the first time they are shown.
+    setTabs(prev => prev.map(t =>
+      t.id === id && !t.content && !t.isLoading && !t.error && t.currentTopic ? { ...t, isLoading: true } : t
+    ));
+  };
   
   const handleNewTab = () => {
     const newTab = createNewTab();
@@ -404,6 +1059,10 @@ const App: React.FC = () => {
   };
 
   const handleCloseTab = (id: string) => {
+    const closing = tabs.find(t => t.id === id);
+    if (closing && (closing.currentTopic || closing.documentName)) {
+      setClosedTabs(prev => [toSnapshot(closing), ...prev].slice(0, MAX_CLOSED_TABS));
+    }
     setTabs(prev => {
       const newTabs = prev.filter(t => t.id !== id);
       if (newTabs.length === 0) {
@@ -418,8 +1077,40 @@ const App: React.FC = () => {
     });
   };
 
-  const handleTopicChange = useCallback((newTopic: string) => {
-    if (!newTopic) return;
+  // Imported tabs open in the background and load when first shown.
+  const handleImportTabs = useCallback((trails: TabTrail[]) => {
+    setTabs(prev => [...prev, ...trails.map(fromTrail)]);
+  }, []);
+
+  const handleImportSearchHistory = useCallback((history: string[]) => {
+    setSearchHistory(prev => {
+      const merged = [...prev, ...history];
+      return merged.filter((item, index) => merged.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index).slice(0, 5);
+    });
+  }, []);
+
+  const handleReopenClosedTab = useCallback(async () => {
+    const [snapshot, ...rest] = closedTabs;
+    if (!snapshot) return;
+    setClosedTabs(rest);
+    const stored = snapshot.documentId ? await loadDocument(snapshot.documentId) : null;
+    const reopened: Tab = { ...fromSnapshot(snapshot), ...restoredDocumentFields(snapshot, stored), isLoading: true };
+    setTabs(prev => [...prev, reopened]);
+    setActiveTabId(reopened.id);
+  }, [closedTabs]);
+
+  // Requests that send a whole document or file are asked about first when they would go past the budget.
+  // Declining cancels the action that would have started them.
+  const confirmDocumentRequest = useCallback((tab: Tab): boolean => {
+    const input = documentInput(tab);
+    if (!input) return true;
+    const warning = checkBudget(usageBudget, sessionUsageRef.current, resolveModel(input.mode, getModelProvider().models), input.tokens);
+    return !warning || window.confirm(`${warning} Continue?`);
+  }, [usageBudget]);
+
+  // `senseContext` is where a word followed from an article was read, so its meaning can be worked out.
+  const handleTopicChange = useCallback((newTopic: string, senseContext: SenseContext | null = null) => {
+    if (!newTopic || !confirmDocumentRequest({ ...activeTab, currentTopic: newTopic })) return;
     
     setSearchHistory(prev => {
       const newHist = [newTopic, ...prev.filter(item => item.toLowerCase() !== newTopic.toLowerCase())];
@@ -428,21 +1119,43 @@ const App: React.FC = () => {
 
     const isUrl = /^(https?:\/\/[^\s]+\.[^\s]+)/i.test(newTopic.trim());
 
+    if (newTopic.toLowerCase() !== activeTab.currentTopic.toLowerCase()) {
+      setTransitions(prev => addTransition(prev, { from: activeTab.currentTopic || null, to: newTopic, tabId: activeTab.id, at: Date.now() }));
+    }
+
+    // A topic shown without navigating there (the start page, a document) becomes the root of the tree.
+    const history = activeTab.history.currentId === null && activeTab.currentTopic
+      ? startHistory(activeTab.currentTopic)
+      : activeTab.history;
+
     updateActiveTab({
-        historyStack: activeTab.currentTopic ? [...activeTab.historyStack, activeTab.currentTopic] : activeTab.historyStack,
-        futureStack: [],
+        history: visitTopic(history, newTopic),
         currentTopic: newTopic,
+        sense: null,
+        senseOptions: [],
+        senseContext,
         content: '', // Clear content
         isLoading: true,
         error: null,
+        errorKind: null,
         title: newTopic,
         webUrl: isUrl ? newTopic.trim() : null,
         webSectionIndex: 0, 
         generatedDiagrams: {},
     });
-  }, [activeTab.currentTopic, activeTab.historyStack, updateActiveTab, activeTab.isEbookMode]);
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
+
+  const handleWebSearchModeChange = useCallback((isWebSearchMode: boolean) => {
+    if (!confirmDocumentRequest({ ...activeTab, isWebSearchMode })) return;
+    updateActiveTab({ isWebSearchMode, isLoading: true, content: '', generatedDiagrams: {} });
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
+
+  const handleStructuredModeChange = useCallback((isStructuredMode: boolean) => {
+    updateActiveTab({ isStructuredMode, isLoading: true, content: '', generatedDiagrams: {} });
+  }, [updateActiveTab]);
 
   const handleLanguageChange = useCallback((lang: string) => {
+    if (!confirmDocumentRequest(activeTab)) return;
     updateActiveTab({ 
       language: lang,
       // If we are in ebook mode (text), we need to trigger a loading state to force the translation effect
@@ -451,39 +1164,81 @@ const App: React.FC = () => {
       // If we are in Wiki/Search mode, clear content to restart the stream in new language
       content: activeTab.isEbookMode && !activeTab.isWebSearchMode && !activeTab.fileData ? activeTab.content : '' 
     });
-  }, [updateActiveTab, activeTab.isEbookMode, activeTab.isWebSearchMode, activeTab.fileData, activeTab.content]);
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
+
+  const handleRegenerate = useCallback(() => {
+    if (!confirmDocumentRequest(activeTab)) return;
+    updateActiveTab({
+      isRegenerating: true,
+      isLoading: true,
+      content: '',
+      error: null,
+      errorKind: null,
+      compareVersion: null,
+      generatedDiagrams: {}
+    });
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
+
+  const handleSelectVersion = useCallback((index: number) => {
+    const version = activeTab.versionHistory?.versions[index];
+    if (!version) return;
+    updateActiveTab({
+      viewedVersion: index,
+      compareVersion: activeTab.compareVersion === index ? null : activeTab.compareVersion,
+      content: version.content,
+      groundingSources: version.sources,
+      generationTime: version.generationTime,
+      promptVersion: version.promptVersion ?? null,
+      generatedDiagrams: {}
+    });
+  }, [activeTab.versionHistory, activeTab.compareVersion, updateActiveTab]);
+
+  const handleDepthChange = useCallback((depth: ReadingDepth) => {
+    updateActiveTab({ depth, isLoading: true, content: '', error: null, errorKind: null, generatedDiagrams: {} });
+  }, [updateActiveTab]);
+
+  // Shows the current node of an updated history tree; used by Back, Forward and the history outline.
+  const showHistoryNode = useCallback((history: HistoryTree) => {
+    const node = currentHistoryNode(history);
+    if (!node || node.id === activeTab.history.currentId) return;
 
-  const handleBack = useCallback(() => {
-    if (activeTab.historyStack.length === 0) return;
-    const prevTopic = activeTab.historyStack[activeTab.historyStack.length - 1];
-    const newHistory = activeTab.historyStack.slice(0, -1);
-    
     updateActiveTab({
-        historyStack: newHistory,
-        futureStack: [activeTab.currentTopic, ...activeTab.futureStack],
-        currentTopic: prevTopic,
+        history,
+        currentTopic: node.topic,
+        sense: node.sense ?? null,
+        senseOptions: [],
+        senseContext: null,
         isLoading: true,
         error: null,
-        title: prevTopic,
-        webSectionIndex: 0 
+        errorKind: null,
+        title: node.topic,
+        webSectionIndex: 0
     });
-  }, [activeTab, updateActiveTab]);
+  }, [activeTab.history, updateActiveTab]);
+
+  const handleBack = useCallback(() => {
+    showHistoryNode(goBack(activeTab.history));
+  }, [activeTab.history, showHistoryNode]);
 
   const handleForward = useCallback(() => {
-    if (activeTab.futureStack.length === 0) return;
-    const nextTopic = activeTab.futureStack[0];
-    const newFuture = activeTab.futureStack.slice(1);
+    showHistoryNode(goForward(activeTab.history));
+  }, [activeTab.history, showHistoryNode]);
 
+  const handleJumpToHistory = useCallback((nodeId: string) => {
+    setIsHistoryOpen(false);
+    showHistoryNode(jumpToHistoryNode(activeTab.history, nodeId));
+  }, [activeTab.history, showHistoryNode]);
+
+  // Re-runs the failed generation for the current view without touching history.
+  const handleRetry = useCallback(() => {
+    if (!confirmDocumentRequest(activeTab)) return;
     updateActiveTab({
-        historyStack: [...activeTab.historyStack, activeTab.currentTopic],
-        futureStack: newFuture,
-        currentTopic: nextTopic,
         isLoading: true,
         error: null,
-        title: nextTopic,
-        webSectionIndex: 0
+        errorKind: null,
+        content: activeTab.isEbookMode && !activeTab.isWebSearchMode && !activeTab.fileData ? activeTab.content : ''
     });
-  }, [activeTab, updateActiveTab]);
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
 
   const handleSearch = useCallback((query: string) => {
     const topic = query.trim();
@@ -498,11 +1253,232 @@ const App: React.FC = () => {
     handleTopicChange(topic);
   }, [activeTab.isEbookMode, handleTopicChange]);
 
-  const handleWordClick = useCallback((word: string) => {
+  const handleWordClick = useCallback((word: string, sentence?: string) => {
     const newTopic = word.trim().replace(/[.,!?;:()"']$/, '');
-    handleTopicChange(newTopic);
-  }, [handleTopicChange]);
+    // Only words read in a wiki article carry their sentence; elsewhere the general meaning is wanted.
+    const senseContext = sentence && activeTab.currentTopic && isWikiTopicTab(activeTab)
+      ? { sentence, parentTopic: activeTab.currentTopic }
+      : null;
+    handleTopicChange(newTopic, senseContext);
+  }, [activeTab, handleTopicChange]);
+
+  // Shows the topic in another of its meanings, from the cache if it was read that way before.
+  const handleSenseChange = useCallback((sense: string) => {
+    updateActiveTab({
+      sense,
+      history: setCurrentSense(activeTab.history, sense),
+      isLoading: true,
+      content: '',
+      error: null,
+      errorKind: null,
+      generatedDiagrams: {}
+    });
+  }, [activeTab.history, updateActiveTab]);
   
+  const handleWordHover = useCallback((word: string) => {
+    const key = word.toLowerCase();
+    hoverCountsRef.current.set(key, (hoverCountsRef.current.get(key) ?? 0) + 1);
+  }, []);
+
+  // --- Bookmarks ---
+  const handleRemoveBookmark = useCallback((id: string) => {
+    setBookmarks(prev => removeBookmark(prev, id));
+    deleteBookmarkContent(id);
+  }, []);
+
+  // Saves the view on screen with its content and sources, or removes its bookmark.
+  const handleToggleBookmark = async () => {
+    const target = bookmarkTarget(activeTab);
+    if (!target) return;
+    const id = bookmarkId(target.route, target.document);
+    if (bookmarks.some(bookmark => bookmark.id === id)) {
+      handleRemoveBookmark(id);
+      return;
+    }
+
+    setBookmarks(prev => addBookmark(prev, { ...target, title: viewTitle(target), hasContent: false }));
+    const hasContent = await saveBookmarkContent({ id, content: activeTab.content, sources: activeTab.groundingSources });
+    if (hasContent) setBookmarks(prev => prev.map(bookmark => bookmark.id === id ? { ...bookmark, hasContent } : bookmark));
+  };
+
+  // Opens a saved view in a new tab, with its document reattached when it is still stored.
+  // Saved content is shown as it is; without it the view loads from the cache or generates.
+  const openSavedView = useCallback(async (route: Route, document: BookmarkDocument | null, saved: SavedContent | null) => {
+    const stored = document?.id ? await loadDocument(document.id) : null;
+    let tab: Tab = { ...createNewTab(), ...routeFields(route), history: startHistory(route.topic) };
+    if (document) {
+      tab = { ...tab, documentName: document.name, documentId: document.id, title: document.name, isEbookMode: true, currentPage: document.page ?? 0, webUrl: null };
+      tab = { ...tab, ...restoredDocumentFields(tab, stored) };
+    }
+    if (saved) tab = { ...tab, content: saved.content, groundingSources: saved.sources, isLoading: false };
+
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+    setTransitions(prev => addTransition(prev, { from: null, to: route.topic, tabId: tab.id, at: Date.now() }));
+  }, []);
+
+  const handleOpenBookmark = useCallback(async (bookmark: Bookmark) => {
+    const saved = bookmark.hasContent ? await loadBookmarkContent(bookmark.id) : null;
+    openSavedView(bookmark.route, bookmark.document, saved);
+  }, [openSavedView]);
+
+  const handleUpdateBookmark = useCallback((id: string, changes: Partial<Pick<Bookmark, 'collectionId' | 'tags'>>) => {
+    setBookmarks(prev => updateBookmark(prev, id, changes));
+  }, []);
+
+  const handleDeleteCollection = useCallback((id: string) => {
+    const next = removeCollection(collections, bookmarks, id);
+    setCollections(next.collections);
+    setBookmarks(next.bookmarks);
+  }, [collections, bookmarks]);
+
+  // Imported bookmarks join the local ones; their saved content is already stored by the import.
+  const handleImportBookmarks = useCallback((importedCollections: BookmarkCollection[], importedBookmarks: Bookmark[]) => {
+    const next = mergeBookmarks(collections, bookmarks, { collections: importedCollections, bookmarks: importedBookmarks });
+    setCollections(next.collections);
+    setBookmarks(next.bookmarks);
+  }, [collections, bookmarks]);
+
+  // --- Highlights and Notes ---
+  // Highlights belong to one version of the view, identified by its text.
+  const activeContentHash = useMemo(() => contentHash(activeTab.content), [activeTab.content]);
+  const activeAnnotationKey = annotationKey(activeTab);
+  const activeAnnotations = useMemo(
+    () => annotations.filter(annotation => annotation.viewKey === activeAnnotationKey && annotation.contentHash === activeContentHash),
+    [annotations, activeAnnotationKey, activeContentHash]
+  );
+
+  const handleHighlight = useCallback((passage: QuotedPassage) => {
+    const target = bookmarkTarget(activeTab);
+    if (!target) return;
+    setAnnotations(prev => addAnnotation(prev, {
+      ...passage,
+      ...target,
+      viewKey: activeAnnotationKey,
+      contentHash: activeContentHash,
+      title: viewTitle(target),
+    }));
+  }, [activeTab, activeAnnotationKey, activeContentHash]);
+
+  const handleChangeNote = useCallback((id: string, note: string) => {
+    setAnnotations(prev => updateAnnotationNote(prev, id, note));
+  }, []);
+
+  const handleRemoveAnnotation = useCallback((id: string) => {
+    setAnnotations(prev => removeAnnotation(prev, id));
+  }, []);
+
+  // Goes back to a note's source: a tab already showing it, or a new one.
+  const handleOpenAnnotation = useCallback((annotation: Annotation) => {
+    setIsNotesOpen(false);
+    const open = tabs.find(tab => annotationKey(tab) === annotation.viewKey);
+    if (open) {
+      handleTabSwitch(open.id);
+      return;
+    }
+    openSavedView(annotation.route, annotation.document, null);
+  }, [tabs, openSavedView]);
+
+  // --- Word Previews ---
+  const cancelPreviewHide = useCallback(() => {
+    if (previewHideTimerRef.current !== null) window.clearTimeout(previewHideTimerRef.current);
+    previewHideTimerRef.current = null;
+  }, []);
+
+  const abortPreviewGeneration = useCallback(() => {
+    previewControllerRef.current?.abort();
+    previewControllerRef.current = null;
+  }, []);
+
+  // A short grace period lets the pointer travel from the word onto the card.
+  const schedulePreviewHide = useCallback(() => {
+    cancelPreviewHide();
+    previewHideTimerRef.current = window.setTimeout(() => {
+      abortPreviewGeneration();
+      setPreview(null);
+    }, 300);
+  }, [cancelPreviewHide, abortPreviewGeneration]);
+
+  const closePreview = useCallback(() => {
+    cancelPreviewHide();
+    abortPreviewGeneration();
+    setPreview(null);
+  }, [cancelPreviewHide, abortPreviewGeneration]);
+
+  const handleWordPreview = useCallback((word: string, anchor: DOMRect) => {
+    cancelPreviewHide();
+    abortPreviewGeneration();
+    const controller = new AbortController();
+    previewControllerRef.current = controller;
+    setPreview({ topic: word, anchor: { left: anchor.left, top: anchor.top, bottom: anchor.bottom }, sentence: null, error: null });
+
+    const tabId = activeTab.id;
+    const language = activeTab.language;
+    // Either kind of cached article can supply the sentence, the one matching the tab's mode first.
+    const target = { ...activeTab, currentTopic: word, sense: null, webSectionIndex: 0 };
+    const articleKeys = [
+      articleCacheKey({ ...target, isStructuredMode: activeTab.isStructuredMode }),
+      articleCacheKey({ ...target, isStructuredMode: !activeTab.isStructuredMode }),
+    ];
+    // Previews open on any hover, so like prefetching they are not generated past the budget.
+    const generate = () => {
+      const model = resolveModel('wiki', getModelProvider().models);
+      if (checkBudget(usageBudget, sessionUsageRef.current, model, estimateTokens(word) + 200)) {
+        return Promise.reject(new Error('No preview: generating one would go past the usage budget.'));
+      }
+      return generatePreview(word, language, {
+        signal: controller.signal,
+        onUsage: record => recordUsage(tabId, record),
+      });
+    };
+    loadWordPreview(word, language, articleKeys, generate, controller.signal).then(sentence => {
+      setPreview(prev => prev?.topic === word ? { ...prev, sentence } : prev);
+    }).catch(e => {
+      if (controller.signal.aborted) return;
+      const error = e instanceof Error ? e.message : 'Could not load a preview.';
+      setPreview(prev => prev?.topic === word ? { ...prev, error } : prev);
+    });
+  }, [activeTab, cancelPreviewHide, abortPreviewGeneration, recordUsage, usageBudget]);
+
+  // The view a previewed word would open: the current tab's settings, on the new topic.
+  const previewRoute = (topic: string): Route => ({
+    mode: activeTab.isStructuredMode ? 'article' : 'wiki',
+    topic,
+    language: activeTab.language,
+    depth: activeTab.depth,
+    section: 0,
+  });
+
+  const handlePreviewOpenHere = () => {
+    if (!preview) return;
+    closePreview();
+    handleWordClick(preview.topic);
+  };
+
+  // Opens in the background so the reader keeps their place; the tab loads when it is first shown.
+  const handlePreviewOpenInNewTab = () => {
+    if (!preview) return;
+    const tab: Tab = { ...createNewTab(), ...routeFields(previewRoute(preview.topic)), history: startHistory(preview.topic), isLoading: false };
+    setTabs(prev => [...prev, tab]);
+    setTransitions(prev => addTransition(prev, { from: activeTab.currentTopic || null, to: preview.topic, tabId: tab.id, at: Date.now() }));
+    closePreview();
+  };
+
+  const handlePreviewToggleBookmark = () => {
+    if (!preview) return;
+    const route = previewRoute(preview.topic);
+    if (isBookmarked(bookmarks, route)) {
+      handleRemoveBookmark(bookmarkId(route));
+    } else {
+      setBookmarks(prev => addBookmark(prev, { title: preview.topic, route, document: null, hasContent: false }));
+    }
+  };
+
+  // The card belongs to the article on screen.
+  useEffect(() => {
+    closePreview();
+  }, [activeTab.id, activeTab.currentTopic, closePreview]);
+
   const handleRandom = useCallback(() => {
     const randomIndex = Math.floor(Math.random() * UNIQUE_WORDS.length);
     let randomWord = UNIQUE_WORDS[randomIndex];
@@ -608,7 +1584,7 @@ const App: React.FC = () => {
 
   const handleFileUpload = useCallback(async (file: File) => {
     if (!file) return;
-    updateActiveTab({ isLoading: true, error: null });
+    updateActiveTab({ isLoading: true, error: null, errorKind: null });
 
     try {
       const base64 = await blobToBase64(file);
@@ -638,10 +1614,21 @@ const App: React.FC = () => {
          text = '';
       }
       
+      // Stored so the document survives a reload; only its id goes into the session snapshot.
+      const documentId = generateId();
+
       if (!text || text.trim().length === 0) {
           console.log("No text extracted. Using Multimodal mode.");
+          const fileData = { base64, mimeType: file.type || 'application/octet-stream' };
+          // The file is analysed as soon as it is loaded.
+          if (!confirmDocumentRequest({ ...activeTab, fileData, documentContext: null, isWebSearchMode: false, currentTopic: 'Analyze Document' })) {
+            updateActiveTab({ isLoading: false });
+            return;
+          }
+          saveDocument({ id: documentId, documentContext: null, fileData, ebookPages: [], injectionFindings: [] });
           updateActiveTab({
-            fileData: { base64, mimeType: file.type || 'application/octet-stream' },
+            fileData,
+            documentId,
             documentContext: null,
             ebookPages: [],
             documentName: file.name,
@@ -649,13 +1636,19 @@ const App: React.FC = () => {
             isWebSearchMode: false,
             content: '', 
             currentTopic: 'Analyze Document', 
+            sense: null,
+            senseOptions: [],
             title: file.name,
-            historyStack: [],
+            history: EMPTY_HISTORY_TREE,
+            injectionFindings: [],
             isLoading: true
           });
 
       } else {
+          const injectionFindings = detectInjectionAttempts(text);
+          saveDocument({ id: documentId, documentContext: text, fileData: null, ebookPages: pages, injectionFindings });
           updateActiveTab({
+            documentId,
             documentContext: text,
             ebookPages: pages,
             fileData: null,
@@ -665,8 +1658,11 @@ const App: React.FC = () => {
             isWebSearchMode: false,
             currentPage: 0,
             currentTopic: file.name,
+            sense: null,
+            senseOptions: [],
             title: file.name,
-            historyStack: [],
+            history: EMPTY_HISTORY_TREE,
+            injectionFindings,
             isLoading: false
           });
       }
@@ -677,20 +1673,24 @@ const App: React.FC = () => {
           isLoading: false
       });
     }
-  }, [updateActiveTab]);
+  }, [activeTab, updateActiveTab, confirmDocumentRequest]);
 
   const handleClearDocument = useCallback(() => {
     updateActiveTab({
         documentContext: null,
         documentName: null,
+        documentId: null,
         fileData: null,
         isEbookMode: false,
         ebookPages: [],
         currentPage: 0,
         isWebSearchMode: false,
         currentTopic: 'Hypertext',
+        sense: null,
+        senseOptions: [],
         title: 'Hypertext',
-        historyStack: [],
+        history: EMPTY_HISTORY_TREE,
+        injectionFindings: [],
         language: 'English' // Reset language on close
     });
     const fileInput = document.getElementById('file-upload') as HTMLInputElement;
@@ -731,6 +1731,80 @@ const App: React.FC = () => {
 
   const displayTopic = (activeTab.isEbookMode && !activeTab.isWebSearchMode) ? (activeTab.documentName || activeTab.currentTopic) : activeTab.currentTopic;
   const isWebUrlMode = activeTab.webUrl !== null;
+  const isWikiTopic = isWikiTopicTab(activeTab);
+  const isStructuredArticle = activeTab.isStructuredMode && isWikiTopic;
+  const deeperLevel = isWikiTopic ? nextReadingDepth(activeTab.depth) : null;
+  // Local eBook pages are never cached, so they have no versions.
+  const isLocalPage = isLocalPageTab(activeTab);
+  const currentBookmark = bookmarkTarget(activeTab);
+  const isCurrentBookmarked = !!currentBookmark && isBookmarked(bookmarks, currentBookmark.route, currentBookmark.document);
+  const versions = activeTab.versionHistory?.key === articleCacheKey(activeTab) ? activeTab.versionHistory.versions : [];
+  const comparedVersion = activeTab.compareVersion !== null ? versions[activeTab.compareVersion] : undefined;
+  const versionLabel = (index: number) => `v${versions.length - index}`;
+  // A misconfigured provider is shown rather than allowed to break rendering.
+  const providerError = modelProviderError();
+
+  // Stepping through a document's pages or a web page's sections, with [ and ] or the buttons.
+  const hasPages = activeTab.isEbookMode && !activeTab.isWebSearchMode && !activeTab.fileData && activeTab.ebookPages.length > 1;
+  const stepName = hasPages ? 'page' : 'section';
+  const previousStep = hasPages
+    ? (!activeTab.isLoading && activeTab.currentPage > 0 ? handlePrevPage : null)
+    : (isWebUrlMode && !activeTab.isLoading && !activeTab.error && activeTab.webSectionIndex > 0 ? handlePrevWebSection : null);
+  const nextStep = hasPages
+    ? (!activeTab.isLoading && activeTab.currentPage < activeTab.ebookPages.length - 1 ? handleNextPage : null)
+    : (isWebUrlMode && !activeTab.isLoading && !activeTab.error ? handleNextWebSection : null);
+  pageKeysRef.current = { previous: previousStep, next: nextStep };
+
+  // The command palette's list, for what can be done in the current view.
+  const paletteCommands = (): Command[] => {
+    const isLoading = activeTab.isLoading;
+    const isWikiSearch = !activeTab.isWebSearchMode && !activeTab.documentName;
+    const canBookmark = !!currentBookmark && !!activeTab.content && !isLoading && !activeTab.error;
+    const commands: (Command | false)[] = [
+      !isLoading && canGoBack(activeTab.history) && { id: 'back', group: 'Go', label: 'Back', run: handleBack },
+      !isLoading && canGoForward(activeTab.history) && { id: 'forward', group: 'Go', label: 'Forward', run: handleForward },
+      !!previousStep && { id: 'previous', group: 'Go', label: `Previous ${stepName}`, shortcut: '[', run: previousStep },
+      !!nextStep && { id: 'next', group: 'Go', label: `Next ${stepName}`, shortcut: ']', run: nextStep },
+      !isLoading && !activeTab.documentName && { id: 'random', group: 'Go', label: 'Random topic', run: handleRandom },
+      { id: 'history', group: 'Go', label: 'History tree', run: () => setIsHistoryOpen(true) },
+      !isLoading && {
+        id: 'web-search',
+        group: 'Mode',
+        label: activeTab.isWebSearchMode ? 'Turn off web search' : 'Turn on web search',
+        run: () => handleWebSearchModeChange(!activeTab.isWebSearchMode),
+      },
+      !isLoading && isWikiSearch && {
+        id: 'full-article',
+        group: 'Mode',
+        label: activeTab.isStructuredMode ? 'Turn off full article' : 'Turn on full article',
+        run: () => handleStructuredModeChange(!activeTab.isStructuredMode),
+      },
+      ...READING_DEPTHS.map(level => !isLoading && isWikiSearch && level.id !== activeTab.depth && {
+        id: `depth-${level.id}`, group: 'Reading level', label: level.label, run: () => handleDepthChange(level.id),
+      }),
+      ...LANGUAGES.map(language => !isLoading && language !== activeTab.language && {
+        id: `language-${language}`, group: 'Language', label: language, run: () => handleLanguageChange(language),
+      }),
+      { id: 'new-tab', group: 'Tab', label: 'New tab', run: handleNewTab },
+      { id: 'close-tab', group: 'Tab', label: 'Close tab', run: () => handleCloseTab(activeTab.id) },
+      closedTabs.length > 0 && { id: 'reopen-tab', group: 'Tab', label: 'Reopen closed tab', run: handleReopenClosedTab },
+      ...tabs.map(tab => tab.id !== activeTab.id && {
+        id: `tab-${tab.id}`, group: 'Tab', label: `Switch to ${tab.title || 'New Tab'}`, run: () => handleTabSwitch(tab.id),
+      }),
+      !isLoading && !activeTab.isWebSearchMode && {
+        id: 'upload', group: 'Document', label: 'Upload a file', run: () => document.getElementById('file-upload')?.click(),
+      },
+      !!activeTab.documentName && { id: 'view-document', group: 'Document', label: 'View document', run: () => setIsViewerOpen(true) },
+      !isLoading && !!activeTab.documentName && { id: 'clear-document', group: 'Document', label: 'Close document', run: handleClearDocument },
+      canBookmark && {
+        id: 'bookmark', group: 'Bookmarks', label: isCurrentBookmarked ? 'Remove bookmark' : 'Bookmark this view', run: handleToggleBookmark,
+      },
+      { id: 'bookmarks', group: 'Bookmarks', label: 'Show bookmarks', run: () => setIsBookmarksOpen(true) },
+      { id: 'notes', group: 'Notes', label: 'Show my notes', run: () => setIsNotesOpen(true) },
+      { id: 'settings', group: 'Settings', label: 'Open settings', run: () => setIsSettingsOpen(true) },
+    ];
+    return commands.filter((command): command is Command => !!command);
+  };
 
   return (
     <div>
@@ -740,6 +1814,8 @@ const App: React.FC = () => {
         onSwitchTab={handleTabSwitch}
         onCloseTab={handleCloseTab}
         onNewTab={handleNewTab}
+        onReopenClosedTab={handleReopenClosedTab}
+        canReopenClosedTab={closedTabs.length > 0}
       />
 
       <SearchBar
@@ -748,22 +1824,24 @@ const App: React.FC = () => {
         isLoading={activeTab.isLoading}
         onBack={handleBack}
         onForward={handleForward}
-        canGoBack={activeTab.historyStack.length > 0}
-        canGoForward={activeTab.futureStack.length > 0}
+        canGoBack={canGoBack(activeTab.history)}
+        canGoForward={canGoForward(activeTab.history)}
+        onShowHistory={() => setIsHistoryOpen(true)}
         onFileUpload={handleFileUpload}
         onClearDocument={handleClearDocument}
         documentName={activeTab.documentName}
         onViewDocument={() => setIsViewerOpen(true)}
         searchHistory={searchHistory}
         isWebSearchMode={activeTab.isWebSearchMode}
-        onWebSearchModeChange={(isWeb) => updateActiveTab({ 
-            isWebSearchMode: isWeb,
-            isLoading: true, 
-            content: '',     
-            generatedDiagrams: {} 
-        })}
+        onWebSearchModeChange={handleWebSearchModeChange}
+        isStructuredMode={activeTab.isStructuredMode}
+        onStructuredModeChange={handleStructuredModeChange}
         currentLanguage={activeTab.language}
         onLanguageChange={handleLanguageChange}
+        currentDepth={activeTab.depth}
+        onDepthChange={handleDepthChange}
+        isWikiTopic={isWikiTopic}
+        onOpenSettings={() => setIsSettingsOpen(true)}
       />
       
       <header style={{ textAlign: 'center', marginBottom: '2rem' }}>
@@ -775,11 +1853,30 @@ const App: React.FC = () => {
       </header>
 
       <main>
+        {providerError && <p className="usage-warning" role="alert">{providerError}</p>}
         <div>
           <h2 style={{ marginBottom: '1rem', textTransform: 'capitalize' }}>
             {displayTopic} {activeTab.language !== 'English' && <span style={{fontSize: '0.6em', color: '#666'}}>({activeTab.language})</span>}
+            {currentBookmark && activeTab.content && !activeTab.isLoading && !activeTab.error && (
+              <button
+                className="bookmark-toggle-button"
+                onClick={handleToggleBookmark}
+                aria-pressed={isCurrentBookmarked}
+                aria-label="Bookmark"
+                title={isCurrentBookmarked ? 'Remove bookmark' : 'Bookmark this article'}
+              >
+                {isCurrentBookmarked ? '★' : '☆'}
+              </button>
+            )}
           </h2>
 
+          <SensePicker
+            sense={activeTab.sense}
+            senses={activeTab.senseOptions}
+            disabled={activeTab.isLoading}
+            onChange={handleSenseChange}
+          />
+
           {activeTab.fileData && activeTab.fileData.mimeType.startsWith('image/') && (
              <div className="diagram-container">
                <img 
@@ -791,37 +1888,76 @@ const App: React.FC = () => {
              </div>
           )}
           
-          {activeTab.isEbookMode && !activeTab.isWebSearchMode && !activeTab.fileData && activeTab.ebookPages.length > 1 && (
+          {hasPages && (
             <div className="pagination-controls">
-              <button onClick={handlePrevPage} disabled={activeTab.isLoading || activeTab.currentPage === 0}>Previous</button>
+              <button onClick={handlePrevPage} disabled={!previousStep} title="Previous page ([)" aria-keyshortcuts="[">Previous</button>
               <span>Page {activeTab.currentPage + 1} of {activeTab.ebookPages.length}</span>
-              <button onClick={handleNextPage} disabled={activeTab.isLoading || activeTab.currentPage >= activeTab.ebookPages.length - 1}>Next</button>
+              <button onClick={handleNextPage} disabled={!nextStep} title="Next page (])" aria-keyshortcuts="]">Next</button>
             </div>
           )}
 
           {activeTab.error && (
             <div style={{ border: '1px solid #cc0000', padding: '1rem', color: '#cc0000' }}>
-              <p style={{ margin: 0 }}>An Error Occurred</p>
+              <p style={{ margin: 0 }}>{ERROR_KIND_LABELS[activeTab.errorKind ?? 'unknown']}</p>
               <p style={{ marginTop: '0.5rem', margin: 0 }}>{activeTab.error}</p>
+              {activeTab.errorKind && canRetryManually(activeTab.errorKind) && (
+                <button onClick={handleRetry} className="error-retry-button">Retry</button>
+              )}
             </div>
           )}
           
+          <InjectionWarning findings={activeTab.injectionFindings} source={activeTab.documentName ? 'document' : 'page'} />
+
           {activeTab.isLoading && activeTab.content.length === 0 && !activeTab.error && <LoadingSkeleton />}
 
-          {activeTab.content.length > 0 && !activeTab.error && (
+          {!isLocalPage && !activeTab.isLoading && !activeTab.error && activeTab.content.length > 0 && (
+             <VersionBar
+               versions={versions}
+               viewedVersion={activeTab.viewedVersion}
+               compareVersion={activeTab.compareVersion}
+               onSelectVersion={handleSelectVersion}
+               onCompareVersion={(index) => updateActiveTab({ compareVersion: index })}
+               onRegenerate={handleRegenerate}
+             />
+          )}
+
+          {activeTab.content.length > 0 && !activeTab.error && (comparedVersion ? (
+             <DiffView
+               before={comparedVersion.content}
+               after={activeTab.content}
+               beforeLabel={versionLabel(activeTab.compareVersion!)}
+               afterLabel={versionLabel(activeTab.viewedVersion)}
+             />
+          ) : (
              <ContentDisplay 
                content={activeTab.content} 
                isLoading={activeTab.isLoading} 
                onWordClick={handleWordClick} 
+               onWordHover={handleWordHover}
+               onWordPreview={isWikiTopic ? handleWordPreview : undefined}
+               onWordPreviewEnd={schedulePreviewHide}
                images={activeTab.generatedDiagrams}
+               highlights={activeAnnotations}
+               onHighlight={currentBookmark ? handleHighlight : undefined}
+               format={isStructuredArticle ? 'structured' : 'plain'}
              />
+          ))}
+
+          {!activeTab.isLoading && !activeTab.error && !comparedVersion && (
+             <ArticleNotes annotations={activeAnnotations} onChangeNote={handleChangeNote} onRemove={handleRemoveAnnotation} />
+          )}
+
+          {deeperLevel && activeTab.content.length > 0 && !activeTab.isLoading && !activeTab.error && (
+             <button className="go-deeper-button" onClick={() => handleDepthChange(deeperLevel.id)}>
+               Go deeper: {deeperLevel.label} →
+             </button>
           )}
 
           {isWebUrlMode && !activeTab.isLoading && !activeTab.error && (
              <div className="pagination-controls" style={{ marginTop: '2rem' }}>
-               <button onClick={handlePrevWebSection} disabled={activeTab.webSectionIndex === 0}>Previous Section</button>
+               <button onClick={handlePrevWebSection} disabled={!previousStep} title="Previous section ([)" aria-keyshortcuts="[">Previous Section</button>
                <span>Section {activeTab.webSectionIndex + 1}</span>
-               <button onClick={handleNextWebSection}>Next Section (Load More)</button>
+               <button onClick={handleNextWebSection} title="Next section (])" aria-keyshortcuts="]">Next Section (Load More)</button>
              </div>
           )}
 
@@ -837,11 +1973,138 @@ const App: React.FC = () => {
 
       <footer className="sticky-footer">
         <p className="footer-text" style={{ margin: 0 }}>
-          Infinite Wiki by <a href="https://x.com/dev_valladares" target="_blank" rel="noopener noreferrer">Dev Valladares</a> · Generated by Gemini
+          Infinite Wiki by <a href="https://x.com/dev_valladares" target="_blank" rel="noopener noreferrer">Dev Valladares</a> · Generated by {providerError ? 'no model provider' : getModelProvider().label}
           {activeTab.generationTime && ` · ${Math.round(activeTab.generationTime)}ms`}
+          {activeTab.promptVersion && ` · prompt ${activeTab.promptVersion}`}
+          {' · '}
+          <button className="footer-link" onClick={() => setIsUsagePanelOpen(true)}>
+            Usage {formatCost(sessionUsage.costUsd)}
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsCacheManagerOpen(true)}>
+            Cache
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsBundlePanelOpen(true)}>
+            Export/Import
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsGraphOpen(true)}>
+            Graph
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsBookmarksOpen(true)}>
+            Bookmarks
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsNotesOpen(true)}>
+            Notes
+          </button>
+          {' · '}
+          <button className="footer-link" onClick={() => setIsPaletteOpen(true)} title="Ctrl+K" aria-keyshortcuts="Control+K Meta+K">
+            Commands
+          </button>
         </p>
       </footer>
       
+      {isSettingsOpen && (
+        <SettingsPanel onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {isBundlePanelOpen && (
+        <KnowledgeBundlePanel
+          tabs={tabs.filter(t => t.currentTopic && !t.documentName).map(toTrail)}
+          searchHistory={searchHistory}
+          collections={collections}
+          bookmarks={bookmarks}
+          onImportTabs={handleImportTabs}
+          onImportSearchHistory={handleImportSearchHistory}
+          onImportBookmarks={handleImportBookmarks}
+          onClose={() => setIsBundlePanelOpen(false)}
+        />
+      )}
+
+      {preview && (
+        <PreviewCard
+          topic={preview.topic}
+          anchor={preview.anchor}
+          sentence={preview.sentence}
+          error={preview.error}
+          isBookmarked={isBookmarked(bookmarks, previewRoute(preview.topic))}
+          onOpenHere={handlePreviewOpenHere}
+          onOpenInNewTab={handlePreviewOpenInNewTab}
+          onToggleBookmark={handlePreviewToggleBookmark}
+          onMouseEnter={cancelPreviewHide}
+          onMouseLeave={schedulePreviewHide}
+          onClose={closePreview}
+        />
+      )}
+
+      {isBookmarksOpen && (
+        <BookmarksSidebar
+          collections={collections}
+          bookmarks={bookmarks}
+          onOpen={handleOpenBookmark}
+          onRemove={handleRemoveBookmark}
+          onUpdate={handleUpdateBookmark}
+          onCreateCollection={(name) => setCollections(prev => createCollection(prev, name))}
+          onRenameCollection={(id, name) => setCollections(prev => renameCollection(prev, id, name))}
+          onDeleteCollection={handleDeleteCollection}
+          onClose={() => setIsBookmarksOpen(false)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={paletteCommands()} onSearch={handleSearch} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {isNotesOpen && (
+        <NotesPanel
+          annotations={annotations}
+          onOpen={handleOpenAnnotation}
+          onRemove={handleRemoveAnnotation}
+          onClose={() => setIsNotesOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryOutline
+          history={activeTab.history}
+          onJump={handleJumpToHistory}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isGraphOpen && (
+        <ExplorationGraphPanel
+          transitions={transitions}
+          activeTabId={activeTab.id}
+          currentTopic={activeTab.currentTopic}
+          onSelectTopic={(topic) => {
+            setIsGraphOpen(false);
+            handleTopicChange(topic);
+          }}
+          onClear={() => setTransitions([])}
+          onClose={() => setIsGraphOpen(false)}
+        />
+      )}
+
+      {isCacheManagerOpen && (
+        <CacheManager onClose={() => setIsCacheManagerOpen(false)} />
+      )}
+
+      {isUsagePanelOpen && (
+        <UsagePanel
+          sessionUsage={sessionUsage}
+          tabUsage={activeTab.usage}
+          tabTitle={activeTab.title}
+          records={usageLog}
+          budget={usageBudget}
+          onBudgetChange={handleBudgetChange}
+          onClose={() => setIsUsagePanelOpen(false)}
+        />
+      )}
+
       {isViewerOpen && (
         <DocumentViewer
           content={activeTab.documentContext || (activeTab.fileData ? "Content format is binary/scanned. Please ask questions to explore it." : null)}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { Annotation } from '../services/annotations';
+
+interface ArticleNotesProps {
+  // Highlights on the version on screen, in the order they were made.
+  annotations: Annotation[];
+  onChangeNote: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const ArticleNotes: React.FC<ArticleNotesProps> = ({ annotations, onChangeNote, onRemove }) => {
+  if (annotations.length === 0) return null;
+
+  return (
+    <section className="article-notes" aria-label="Your notes on this article">
+      <h3>Your notes</h3>
+      <ul>
+        {annotations.map(annotation => (
+          <li key={annotation.id} className="article-note">
+            <blockquote className="annotation-quote">{annotation.quote}</blockquote>
+            <textarea
+              // Re-created when the note changes elsewhere, such as in "My notes"
+              key={annotation.note}
+              defaultValue={annotation.note}
+              placeholder="Add a note…"
+              aria-label="Note"
+              rows={2}
+              onBlur={(e) => onChangeNote(annotation.id, e.target.value.trim())}
+            />
+            <button className="settings-reset-button" onClick={() => onRemove(annotation.id)}>Remove highlight</button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default ArticleNotes;
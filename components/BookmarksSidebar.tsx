@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { type Bookmark, type BookmarkCollection, bookmarkTags, parseTags } from '../services/bookmarks';
+import type { RouteMode } from '../services/routing';
+
+interface BookmarksSidebarProps {
+  collections: BookmarkCollection[];
+  bookmarks: Bookmark[];
+  onOpen: (bookmark: Bookmark) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Pick<Bookmark, 'collectionId' | 'tags'>>) => void;
+  onCreateCollection: (name: string) => void;
+  onRenameCollection: (id: string, name: string) => void;
+  onDeleteCollection: (id: string) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<RouteMode, string> = {
+  'wiki': 'Definition',
+  'article': 'Article',
+  'search': 'Web search',
+};
+
+// Which bookmarks are listed: every one, the unsorted ones, or one collection's.
+const ALL = 'all';
+const UNSORTED = 'unsorted';
+
+const describeBookmark = ({ route, document, hasContent }: Bookmark) => [
+  document ? (document.page !== null ? `${document.name}, page ${document.page + 1}` : `Asked of ${document.name}`) : MODE_LABELS[route.mode],
+  route.section > 0 && `section ${route.section + 1}`,
+  route.language,
+  hasContent ? 'saved' : 'link only',
+].filter(Boolean).join(' · ');
+
+const BookmarksSidebar: React.FC<BookmarksSidebarProps> = ({
+  collections,
+  bookmarks,
+  onOpen,
+  onRemove,
+  onUpdate,
+  onCreateCollection,
+  onRenameCollection,
+  onDeleteCollection,
+  onClose,
+}) => {
+  const [shown, setShown] = useState<string>(ALL);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState('');
+
+  const collection = collections.find(c => c.id === shown) ?? null;
+  const tags = bookmarkTags(bookmarks);
+  const listed = bookmarks.filter(bookmark =>
+    (shown === ALL || (shown === UNSORTED ? !bookmark.collectionId : bookmark.collectionId === shown))
+    && (!tagFilter || bookmark.tags.includes(tagFilter))
+  );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCollectionName.trim()) return;
+    onCreateCollection(newCollectionName);
+    setNewCollectionName('');
+  };
+
+  const handleRename = () => {
+    if (!collection) return;
+    const name = window.prompt('Rename collection', collection.name)?.trim();
+    if (name) onRenameCollection(collection.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!collection || !window.confirm(`Delete the collection "${collection.name}"? Its bookmarks become unsorted.`)) return;
+    onDeleteCollection(collection.id);
+    setShown(ALL);
+  };
+
+  return (
+    <aside className="bookmarks-sidebar" aria-label="Bookmarks">
+      <header className="modal-header">
+        <h2 className="modal-title">Bookmarks</h2>
+        <button onClick={onClose} className="modal-close-button" aria-label="Close bookmarks">&times;</button>
+      </header>
+
+      <label className="settings-row">
+        <span>Show</span>
+        <select value={collection || shown === UNSORTED ? shown : ALL} onChange={(e) => setShown(e.target.value)}>
+          <option value={ALL}>All bookmarks</option>
+          <option value={UNSORTED}>Unsorted</option>
+          {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      </label>
+      {collection && (
+        <div className="bookmarks-collection-actions">
+          <button className="settings-reset-button" onClick={handleRename}>Rename</button>
+          <button className="settings-reset-button" onClick={handleDelete}>Delete collection</button>
+        </div>
+      )}
+
+      <form className="bookmarks-new-collection" onSubmit={handleCreate}>
+        <input
+          value={newCollectionName}
+          onChange={(e) => setNewCollectionName(e.target.value)}
+          placeholder="New collection"
+          aria-label="New collection name"
+        />
+        <button type="submit" className="settings-reset-button" disabled={!newCollectionName.trim()}>Add</button>
+      </form>
+
+      {tags.length > 0 && (
+        <div className="bookmarks-tags" aria-label="Filter by tag">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              className="bookmarks-tag"
+              aria-pressed={tag === tagFilter}
+              onClick={() => setTagFilter(tag === tagFilter ? null : tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {listed.length === 0 ? (
+        <p className="settings-hint">
+          {bookmarks.length === 0 ? 'Bookmark an article with ☆ next to its title to keep it here.' : 'No bookmarks match.'}
+        </p>
+      ) : (
+        <ul className="bookmarks-list">
+          {listed.map(bookmark => (
+            <li key={bookmark.id} className="bookmarks-item">
+              <button className="bookmarks-item-title" onClick={() => onOpen(bookmark)}>{bookmark.title}</button>
+              <p className="settings-hint">{describeBookmark(bookmark)}</p>
+              <div className="bookmarks-item-controls">
+                <select
+                  value={bookmark.collectionId ?? ''}
+                  onChange={(e) => onUpdate(bookmark.id, { collectionId: e.target.value || null })}
+                  aria-label={`Collection of ${bookmark.title}`}
+                >
+                  <option value="">Unsorted</option>
+                  {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <input
+                  // Re-created when the tags change elsewhere, so the field shows them
+                  key={bookmark.tags.join(',')}
+                  defaultValue={bookmark.tags.join(', ')}
+                  placeholder="Tags, comma separated"
+                  aria-label={`Tags of ${bookmark.title}`}
+                  onBlur={(e) => onUpdate(bookmark.id, { tags: parseTags(e.target.value) })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                />
+                <button onClick={() => onRemove(bookmark.id)} aria-label={`Remove ${bookmark.title}`}>&times;</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default BookmarksSidebar;
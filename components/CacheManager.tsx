@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import {
+  type CachedArticle,
+  clearArticleCache,
+  deleteCachedArticle,
+  getCacheLimit,
+  listCachedArticles,
+  setCacheLimit,
+} from '../services/articleCache';
+import { listCachedDiagrams } from '../services/diagramCache';
+
+interface CacheManagerProps {
+  onClose: () => void;
+}
+
+const MEGABYTE = 1024 * 1024;
+
+const formatBytes = (bytes: number) =>
+  bytes >= MEGABYTE ? `${(bytes / MEGABYTE).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Cache keys start with the mode, e.g. "wiki:article:" or "web:doc(report.pdf):".
+const describeKey = (key: string) => {
+  const parts = key.split(':');
+  const labels = [parts[0] === 'web' ? 'Web search' : 'Wiki'];
+  if (key.includes(':article:')) labels.push('article');
+  const docMatch = key.match(/:doc\((.*?)\):/);
+  if (docMatch) labels.push(docMatch[1]);
+  return labels.join(' · ');
+};
+
+const errorMessage = (e: unknown, fallback: string) => e instanceof Error ? `${fallback} ${e.message}` : fallback;
+
+const CacheManager: React.FC<CacheManagerProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CachedArticle[] | null>(null);
+  const [diagramStats, setDiagramStats] = useState({ count: 0, sizeBytes: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [limitMb, setLimitMb] = useState(() => Math.round(getCacheLimit() / MEGABYTE));
+
+  const refresh = () => {
+    listCachedArticles()
+      // Most recently used first.
+      .then(list => setEntries(list.reverse()))
+      .catch(e => setError(errorMessage(e, 'Could not open the cache.')));
+    listCachedDiagrams()
+      .then(list => setDiagramStats({ count: list.length, sizeBytes: list.reduce((sum, diagram) => sum + diagram.sizeBytes, 0) }))
+      .catch(() => setDiagramStats({ count: 0, sizeBytes: 0 }));
+  };
+
+  useEffect(refresh, []);
+
+  // Runs a change to the cache and lists what is stored afterwards, whether or not it went through.
+  const changeCache = async (change: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await change();
+    } catch (e) {
+      setError(errorMessage(e, failure));
+    }
+    refresh();
+  };
+
+  const handleDelete = (key: string) => changeCache(() => deleteCachedArticle(key), 'Could not delete the article.');
+
+  const handleClear = () => {
+    if (!window.confirm('Delete every cached article and diagram?')) return;
+    return changeCache(clearArticleCache, 'Could not clear the cache.');
+  };
+
+  const handleLimitChange = (value: number) => {
+    setLimitMb(value);
+    if (value > 0) {
+      return changeCache(() => setCacheLimit(value * MEGABYTE), 'Could not apply the new limit.');
+    }
+  };
+
+  const totalBytes = (entries?.reduce((sum, entry) => sum + entry.sizeBytes, 0) ?? 0) + diagramStats.sizeBytes;
+  const query = filter.trim().toLowerCase();
+  const visible = entries?.filter(entry => !query || entry.topic.toLowerCase().includes(query)) ?? [];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">Cached Articles</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close cache manager">&times;</button>
+        </header>
+        <div className="modal-body cache-manager">
+          {error && <p className="usage-warning">{error}</p>}
+
+          <div className="cache-summary">
+            <span>{entries?.length ?? 0} articles · {diagramStats.count} diagrams · {formatBytes(totalBytes)} of {limitMb} MB</span>
+            <label>
+              Limit (MB)
+              <input type="number" min="1" step="5" value={limitMb} onChange={(e) => handleLimitChange(Number(e.target.value))} />
+            </label>
+            <button className="settings-reset-button" onClick={handleClear} disabled={!entries?.length && !diagramStats.count}>Clear all</button>
+          </div>
+
+          <input
+            type="search"
+            className="cache-filter"
+            placeholder="Filter by topic..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+
+          {entries && visible.length === 0 && <p className="settings-hint">No cached articles.</p>}
+
+          <ul className="cache-list">
+            {visible.map(entry => (
+              <li key={entry.key}>
+                <details>
+                  <summary>
+                    <strong>{entry.topic}</strong>
+                    <span className="cache-meta">
+                      {describeKey(entry.key)} · {entry.language} · {formatBytes(entry.sizeBytes)} · used {new Date(entry.lastAccessedAt).toLocaleString()}
+                    </span>
+                  </summary>
+                  <p className="cache-meta">
+                    Created {new Date(entry.createdAt).toLocaleString()}
+                    {entry.generationTime !== null && ` · generated in ${Math.round(entry.generationTime)}ms`}
+                    {entry.promptVersion && ` · prompt ${entry.promptVersion}`}
+                    {entry.sources.length > 0 && ` · ${entry.sources.length} sources`}
+                    {entry.diagramHashes?.length ? ` · ${entry.diagramHashes.length} diagrams` : ''}
+                  </p>
+                  <p className="cache-preview">{entry.content.slice(0, 400)}{entry.content.length > 400 && '…'}</p>
+                </details>
+                <button onClick={() => handleDelete(entry.key)} className="clear-button" aria-label={`Delete cached article ${entry.topic}`}>
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
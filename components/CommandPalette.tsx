@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { type Command, matchCommands } from '../services/commands';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onSearch: (query: string) => void;
+  onClose: () => void;
+}
+
+// Command ids can hold spaces and brackets, which element ids cannot, so options are named by position.
+const optionId = (index: number) => `command-option-${index}`;
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onSearch, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Whatever had focus before gets it back, if it is still there.
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    return () => {
+      if (previous?.isConnected) previous.focus();
+    };
+  }, []);
+
+  const trimmed = query.trim();
+  const listed = matchCommands(commands, trimmed);
+  // Typed text can always be looked up, after any commands it matches.
+  if (trimmed) listed.push({ id: 'search', group: 'Search', label: `“${trimmed}”`, run: () => onSearch(trimmed) });
+  const active = Math.min(selected, listed.length - 1);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [active, query]);
+
+  const run = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (listed.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected((active + step + listed.length) % listed.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (listed[active]) run(listed[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay command-palette-overlay" onClick={onClose}>
+      <div className="modal-content command-palette" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Command palette">
+        <input
+          className="command-palette-input"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command or a topic to search"
+          aria-label="Command or topic"
+          role="combobox"
+          aria-expanded={listed.length > 0}
+          aria-controls="command-palette-list"
+          aria-activedescendant={listed[active] ? optionId(active) : undefined}
+          autoComplete="off"
+          autoFocus
+        />
+        {listed.length === 0 ? (
+          <p className="settings-hint">No commands match.</p>
+        ) : (
+          <ul id="command-palette-list" className="command-palette-list" role="listbox" ref={listRef}>
+            {listed.map((command, index) => (
+              <li
+                key={command.id}
+                id={optionId(index)}
+                className="command-palette-item"
+                role="option"
+                aria-selected={index === active}
+                onMouseMove={() => setSelected(index)}
+                onClick={() => run(command)}
+              >
+                <span className="command-palette-group">{command.group}</span>
+                <span className="command-palette-label">{command.label}</span>
+                {command.shortcut && <kbd className="command-palette-shortcut">{command.shortcut}</kbd>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
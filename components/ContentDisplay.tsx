@@ -2,82 +2,26 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useLayoutEffect, useRef } from 'react';
+import InteractiveContent from './InteractiveContent';
+import type { QuotedPassage, TextHighlight } from '../services/annotations';
+import StructuredArticleView from './StructuredArticleView';
+
+export type ContentFormat = 'plain' | 'structured';
 
 interface ContentDisplayProps {
   content: string;
   isLoading: boolean;
-  onWordClick?: (word: string) => void;
+  onWordClick?: (word: string, sentence?: string) => void;
+  onWordHover?: (word: string) => void;
+  onWordPreview?: (word: string, anchor: DOMRect) => void;
+  onWordPreviewEnd?: () => void;
   images?: Record<string, string>; // prompt -> base64
+  highlights?: TextHighlight[];
+  onHighlight?: (passage: QuotedPassage) => void;
+  format?: ContentFormat;
 }
 
-const InteractiveContent: React.FC<{
-  content: string;
-  onWordClick?: (word: string) => void;
-  images?: Record<string, string>;
-}> = ({ content, onWordClick, images }) => {
-  // Split content by Diagram tags
-  // Tag format: [DIAGRAM: description]
-  const parts = content.split(/(\[DIAGRAM:\s*.*?\])/g);
-
-  return (
-    <>
-      {parts.map((part, index) => {
-        const diagramMatch = part.match(/^\[DIAGRAM:\s*(.*?)\]$/);
-        
-        if (diagramMatch) {
-          const prompt = diagramMatch[1];
-          const imageBase64 = images?.[prompt];
-          
-          if (imageBase64) {
-            return (
-              <div key={index} className="diagram-container" style={{ margin: '2rem 0' }}>
-                <img 
-                  src={`data:image/png;base64,${imageBase64}`} 
-                  alt={`Generated Diagram: ${prompt}`} 
-                  className="diagram-image" 
-                />
-                <p style={{ fontSize: '0.8em', color: '#666', textAlign: 'center' }}>Figure: {prompt}</p>
-              </div>
-            );
-          } else {
-             return (
-               <div key={index} style={{ padding: '1rem', backgroundColor: '#f9f9f9', border: '1px dashed #ccc', margin: '1rem 0', fontSize: '0.9em', color: '#666' }}>
-                  Generating visual for: {prompt}...
-               </div>
-             );
-          }
-        }
-
-        // Standard Text Rendering
-        const words = part.split(/(\s+)/).filter(Boolean);
-        return (
-          <p key={index} style={{ margin: '0 0 1rem 0', display: 'inline' }}>
-            {words.map((word, wIndex) => {
-              if (/\S/.test(word) && onWordClick) {
-                const cleanWord = word.replace(/[.,!?;:()"']/g, '');
-                if (cleanWord) {
-                  return (
-                    <button
-                      key={wIndex}
-                      onClick={() => onWordClick(cleanWord)}
-                      className="interactive-word"
-                      aria-label={`Learn more about ${cleanWord}`}
-                    >
-                      {word}
-                    </button>
-                  );
-                }
-              }
-              return <span key={wIndex}>{word}</span>;
-            })}
-          </p>
-        );
-      })}
-    </>
-  );
-};
-
 const StreamingContent: React.FC<{ content: string }> = ({ content }) => (
   <p style={{ margin: 0 }}>
     {content}
@@ -85,13 +29,95 @@ const StreamingContent: React.FC<{ content: string }> = ({ content }) => (
   </p>
 );
 
-const ContentDisplay: React.FC<ContentDisplayProps> = ({ content, isLoading, onWordClick, images }) => {
+// The link on the nearest line above (-1) or below (1) the one at `index`, closest to it horizontally.
+const linkOnNextLine = (links: HTMLElement[], index: number, direction: 1 | -1): number | null => {
+  const from = links[index].getBoundingClientRect();
+  const centre = from.left + from.width / 2;
+  let best: { index: number; lineDistance: number; distance: number } | null = null;
+  for (let i = 0; i < links.length; i++) {
+    const rect = links[i].getBoundingClientRect();
+    const lineDistance = (rect.top - from.top) * direction;
+    if (lineDistance < from.height / 2) continue;
+    const distance = Math.abs(rect.left + rect.width / 2 - centre);
+    const isNearerLine = !best || lineDistance < best.lineDistance - from.height / 2;
+    const isSameLine = best && Math.abs(lineDistance - best.lineDistance) <= from.height / 2;
+    if (isNearerLine || (isSameLine && distance < best!.distance)) best = { index: i, lineDistance, distance };
+  }
+  return best?.index ?? null;
+};
+
+/**
+ * Gives every link in the article, across all its paragraphs and sections, a single tab stop.
+ * Left and right go through the links in reading order, up and down to the nearest link on the
+ * line above or below; Home and End go to the first and last.
+ */
+const ArticleLinks: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The link holding the tab stop; the first link takes it when this one is gone
+  const focusedLinkRef = useRef<HTMLElement | null>(null);
+
+  const links = (): HTMLButtonElement[] => {
+    const container = containerRef.current;
+    return container ? Array.prototype.slice.call(container.querySelectorAll('.interactive-word:not(:disabled)')) : [];
+  };
+
+  const placeTabStop = () => {
+    const all = links();
+    const tabStop = focusedLinkRef.current && all.includes(focusedLinkRef.current as HTMLButtonElement) ? focusedLinkRef.current : all[0];
+    all.forEach(link => { link.tabIndex = link === tabStop ? 0 : -1; });
+  };
+
+  // Links come and go with the content, so the tab stop is placed again after every render.
+  useLayoutEffect(placeTabStop);
+
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!(e.target instanceof HTMLElement) || !e.target.classList.contains('interactive-word')) return;
+    focusedLinkRef.current = e.target;
+    placeTabStop();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    const all = links();
+    const index = all.indexOf(e.target as HTMLButtonElement);
+    if (index < 0) return;
+    let next: number | null;
+    switch (e.key) {
+      case 'ArrowRight': next = index + 1; break;
+      case 'ArrowLeft': next = index - 1; break;
+      case 'ArrowDown': next = linkOnNextLine(all, index, 1); break;
+      case 'ArrowUp': next = linkOnNextLine(all, index, -1); break;
+      case 'Home': next = 0; break;
+      case 'End': next = all.length - 1; break;
+      default: return;
+    }
+    e.preventDefault();
+    if (next === null || !all[next]) return;
+    all[next].focus();
+  };
+
+  return <div ref={containerRef} onFocus={handleFocus} onKeyDown={handleKeyDown}>{children}</div>;
+};
+
+const ContentDisplay: React.FC<ContentDisplayProps> = ({ content, isLoading, onWordClick, onWordHover, onWordPreview, onWordPreviewEnd, images, highlights, onHighlight, format = 'plain' }) => {
+  if (format === 'structured' && content) {
+    return (
+      <ArticleLinks>
+        <StructuredArticleView content={content} isLoading={isLoading} onWordClick={onWordClick} onWordHover={onWordHover} onWordPreview={onWordPreview} onWordPreviewEnd={onWordPreviewEnd} images={images} highlights={highlights} onHighlight={onHighlight} />
+      </ArticleLinks>
+    );
+  }
+
   if (isLoading) {
     return <StreamingContent content={content} />;
   }
   
   if (content) {
-    return <InteractiveContent content={content} onWordClick={onWordClick} images={images} />;
+    return (
+      <ArticleLinks>
+        <InteractiveContent content={content} onWordClick={onWordClick} onWordHover={onWordHover} onWordPreview={onWordPreview} onWordPreviewEnd={onWordPreviewEnd} images={images} highlights={highlights} onHighlight={onHighlight} />
+      </ArticleLinks>
+    );
   }
 
   return null;
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { diffWords } from '../services/textDiff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+  const hasChanges = segments.some(segment => segment.type !== 'equal');
+
+  return (
+    <div className="diff-view">
+      <p className="diff-legend">
+        <del>{beforeLabel}</del> → <ins>{afterLabel}</ins>
+        {!hasChanges && ' · No differences'}
+      </p>
+      <p className="diff-text">
+        {segments.map((segment, index) => {
+          if (segment.type === 'added') return <ins key={index}>{segment.text}</ins>;
+          if (segment.type === 'removed') return <del key={index}>{segment.text}</del>;
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import {
+  buildExplorationGraph,
+  layoutExplorationGraph,
+  toGraphML,
+  type TopicTransition,
+} from '../services/explorationGraph';
+
+interface ExplorationGraphPanelProps {
+  transitions: TopicTransition[];
+  activeTabId: string;
+  currentTopic: string;
+  onSelectTopic: (topic: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type GraphScope = 'tab' | 'session';
+
+const WIDTH = 640;
+const HEIGHT = 420;
+const NODE_RADIUS = 6;
+
+const download = (text: string, type: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([text], { type }));
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const ExplorationGraphPanel: React.FC<ExplorationGraphPanelProps> = ({ transitions, activeTabId, currentTopic, onSelectTopic, onClear, onClose }) => {
+  const [scope, setScope] = useState<GraphScope>('tab');
+
+  const graph = useMemo(
+    () => buildExplorationGraph(transitions, scope === 'tab' ? activeTabId : null),
+    [transitions, scope, activeTabId]
+  );
+  const positions = useMemo(() => layoutExplorationGraph(graph, WIDTH, HEIGHT), [graph]);
+  const currentId = currentTopic.toLowerCase();
+  const filename = `infinite-wiki-graph-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content graph-panel" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">Exploration Graph</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close exploration graph">&times;</button>
+        </header>
+        <div className="modal-body">
+          <div className="graph-toolbar">
+            <label>
+              Show
+              <select value={scope} onChange={(e) => setScope(e.target.value as GraphScope)}>
+                <option value="tab">This tab</option>
+                <option value="session">All tabs</option>
+              </select>
+            </label>
+            <span className="settings-hint">{graph.nodes.length} topics · {graph.edges.length} links</span>
+            <button className="settings-reset-button" onClick={() => download(JSON.stringify(graph, null, 2), 'application/json', `${filename}.json`)} disabled={graph.nodes.length === 0}>
+              Export JSON
+            </button>
+            <button className="settings-reset-button" onClick={() => download(toGraphML(graph), 'application/xml', `${filename}.graphml`)} disabled={graph.nodes.length === 0}>
+              Export GraphML
+            </button>
+            <button className="settings-reset-button" onClick={onClear} disabled={transitions.length === 0}>Clear</button>
+          </div>
+
+          {graph.nodes.length === 0 ? (
+            <p className="settings-hint">Topics you open will appear here, linked by the words you clicked to get from one to the next.</p>
+          ) : (
+            <svg className="graph-canvas" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Graph of visited topics">
+              <defs>
+                <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" />
+                </marker>
+              </defs>
+              {graph.edges.map(edge => {
+                const from = positions.get(edge.source)!;
+                const to = positions.get(edge.target)!;
+                // Stop the line at the edge of the target circle so the arrowhead stays visible.
+                const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+                const endX = to.x - ((to.x - from.x) / length) * NODE_RADIUS;
+                const endY = to.y - ((to.y - from.y) / length) * NODE_RADIUS;
+                return (
+                  <line
+                    key={`${edge.source}\n${edge.target}`}
+                    className="graph-edge"
+                    x1={from.x}
+                    y1={from.y}
+                    x2={endX}
+                    y2={endY}
+                    strokeWidth={Math.min(1 + edge.count * 0.5, 4)}
+                    markerEnd="url(#graph-arrow)"
+                  />
+                );
+              })}
+              {graph.nodes.map(node => {
+                const position = positions.get(node.id)!;
+                return (
+                  <g
+                    key={node.id}
+                    className={`graph-node${node.id === currentId ? ' current' : ''}`}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    onClick={() => onSelectTopic(node.label)}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={`Go to ${node.label}`}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') onSelectTopic(node.label);
+                    }}
+                  >
+                    <title>{`${node.label} · visited ${node.visits} time${node.visits === 1 ? '' : 's'}`}</title>
+                    <circle r={NODE_RADIUS} />
+                    <text y={-NODE_RADIUS - 4} textAnchor="middle">{node.label}</text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExplorationGraphPanel;
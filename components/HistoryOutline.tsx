@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { HistoryTree } from '../services/historyTree';
+
+interface HistoryOutlineProps {
+  history: HistoryTree;
+  onJump: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const HistoryOutline: React.FC<HistoryOutlineProps> = ({ history, onJump, onClose }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  // Ancestors of the current node, which are marked so the active branch stands out.
+  const activePath = new Set<string>();
+  for (let id = history.currentId; id; id = history.nodes[id].parentId) activePath.add(id);
+
+  const toggle = (id: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const renderNodes = (ids: string[]): React.ReactNode => (
+    <ul className="history-outline-list">
+      {ids.map(id => {
+        const node = history.nodes[id];
+        const isCollapsed = collapsed.has(id);
+        const isCurrent = id === history.currentId;
+        return (
+          <li key={id}>
+            <div className={`history-outline-row${activePath.has(id) ? ' active' : ''}`}>
+              {node.childIds.length > 0 ? (
+                <button
+                  className="history-outline-toggle"
+                  onClick={() => toggle(id)}
+                  aria-expanded={!isCollapsed}
+                  aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} ${node.topic}`}
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+              ) : (
+                <span className="history-outline-toggle" />
+              )}
+              <button
+                className="history-outline-topic"
+                onClick={() => onJump(id)}
+                aria-current={isCurrent ? 'page' : undefined}
+                disabled={isCurrent}
+              >
+                {node.topic}
+              </button>
+              {isCollapsed && <span className="settings-hint"> ({node.childIds.length})</span>}
+            </div>
+            {!isCollapsed && node.childIds.length > 0 && renderNodes(node.childIds)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">History</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close history">&times;</button>
+        </header>
+        <div className="modal-body history-outline">
+          {history.rootIds.length === 0
+            ? <p className="settings-hint">Topics you visit in this tab will appear here, with every branch you took.</p>
+            : renderNodes(history.rootIds)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryOutline;
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { InjectionFinding } from '../services/untrustedContent';
+
+interface InjectionWarningProps {
+  findings: InjectionFinding[];
+  // Documents are scanned as uploaded. Pages are fetched by the model, so only its answer can be scanned.
+  source: 'document' | 'page';
+}
+
+const InjectionWarning: React.FC<InjectionWarningProps> = ({ findings, source }) => {
+  if (findings.length === 0) {
+    return null;
+  }
+
+  const passages = findings.length === 1 ? 'a passage that reads' : `${findings.length} passages that read`;
+  return (
+    <details className="injection-warning">
+      <summary>
+        {source === 'document'
+          ? `This document contains ${passages} like instructions to the AI. They were not followed, but answers based on it may still be affected.`
+          : `The text read from this page contains ${passages} like instructions to the AI, probably repeated from the page. Treat this answer with care.`}
+      </summary>
+      <ul>
+        {findings.map((finding, index) => (
+          <li key={index}>
+            <strong>{finding.reason}</strong>
+            <q>{finding.excerpt}</q>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default InjectionWarning;
@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { segmentText, selectionToTopic } from '../services/phraseDetection';
+import { sentenceAround } from '../services/senses';
+import { locateQuote, type QuotedPassage, quoteAt, type TextHighlight, type TextRange } from '../services/annotations';
+
+interface InteractiveContentProps {
+  content: string;
+  // Also given the sentence a clicked word was read in, so its meaning can be told from the context
+  onWordClick?: (word: string, sentence?: string) => void;
+  onWordHover?: (word: string) => void; // Hints for the prefetcher about what the reader may click next
+  // Asks for a preview card after a hover or long press on a word, and says when the pointer has left it
+  onWordPreview?: (word: string, anchor: DOMRect) => void;
+  onWordPreviewEnd?: () => void;
+  images?: Record<string, string>; // prompt -> base64
+  highlights?: TextHighlight[];
+  onHighlight?: (passage: QuotedPassage) => void;
+}
+
+// What a text selection can become: a topic to explore, a highlight, or both.
+interface SelectionActions {
+  topic: string | null;
+  range: TextRange | null;
+  left: number;
+  top: number;
+}
+
+// A drag over a single word still ends in a click on it, which should not navigate.
+const hasTextSelection = () => !(window.getSelection()?.isCollapsed ?? true);
+
+// How long a pointer rests on a word, or a finger presses it, before its preview opens.
+const PREVIEW_DELAY_MS = 500;
+
+// Offset into the content of a point in the DOM, read from the enclosing segment's `data-offset`.
+const offsetOf = (node: Node, offset: number): number | null => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const element = node.parentElement?.closest<HTMLElement>('[data-offset]');
+    return element ? Number(element.dataset.offset) + offset : null;
+  }
+  const element = node as HTMLElement;
+  if (element.dataset?.offset === undefined) return null;
+  // A point between a segment's children falls before or after its text.
+  return Number(element.dataset.offset) + (offset > 0 ? element.textContent?.length ?? 0 : 0);
+};
+
+// The selected characters of `content`, without surrounding whitespace. Selections that start or end
+// outside a word are found by their text instead.
+const selectedRange = (content: string, range: Range, text: string): TextRange | null => {
+  let start = offsetOf(range.startContainer, range.startOffset);
+  let end = offsetOf(range.endContainer, range.endOffset);
+  if (start === null || end === null || end <= start) {
+    const found = locateQuote(content, { quote: text.trim(), prefix: '' });
+    if (!found) return null;
+    ({ start, end } = found);
+  }
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return end > start ? { start, end } : null;
+};
+
+const InteractiveContent: React.FC<InteractiveContentProps> = ({
+  content,
+  onWordClick,
+  onWordHover,
+  onWordPreview,
+  onWordPreviewEnd,
+  images,
+  highlights,
+  onHighlight,
+}) => {
+  const [selectionActions, setSelectionActions] = useState<SelectionActions | null>(null);
+  const previewTimerRef = useRef<number | null>(null);
+  // Set when a long press opened a preview, so lifting the finger does not also follow the link
+  const longPressedRef = useRef<boolean>(false);
+
+  const cancelPreviewTimer = () => {
+    if (previewTimerRef.current !== null) window.clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = null;
+  };
+
+  const schedulePreview = (target: string, element: HTMLElement, onOpen?: () => void) => {
+    if (!onWordPreview) return;
+    cancelPreviewTimer();
+    previewTimerRef.current = window.setTimeout(() => {
+      previewTimerRef.current = null;
+      onOpen?.();
+      onWordPreview(target, element.getBoundingClientRect());
+    }, PREVIEW_DELAY_MS);
+  };
+
+  useEffect(() => cancelPreviewTimer, []);
+
+  // The selection buttons go away with the selection, and on scroll since they are positioned against the viewport.
+  useEffect(() => {
+    if (!selectionActions) return;
+    const handleSelectionChange = () => {
+      if (!hasTextSelection()) setSelectionActions(null);
+    };
+    const handleScroll = () => setSelectionActions(null);
+    document.addEventListener('selectionchange', handleSelectionChange);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [selectionActions]);
+
+  // Offers any selected span of the article as a topic, and as a passage to highlight.
+  const handleSelectionEnd = (e: React.SyntheticEvent<HTMLElement>) => {
+    if (!onWordClick && !onHighlight) return;
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    if (!e.currentTarget.contains(range.commonAncestorContainer)) return;
+
+    const text = selection.toString();
+    const topic = onWordClick ? selectionToTopic(text) : null;
+    const highlightRange = onHighlight ? selectedRange(content, range, text) : null;
+    if (!topic && !highlightRange) return;
+    const rect = range.getBoundingClientRect();
+    setSelectionActions({ topic, range: highlightRange, left: rect.left, top: rect.bottom + 6 });
+  };
+
+  const handleExploreSelection = () => {
+    if (!selectionActions?.topic || !onWordClick) return;
+    window.getSelection()?.removeAllRanges();
+    setSelectionActions(null);
+    onWordClick(selectionActions.topic);
+  };
+
+  const handleHighlightSelection = () => {
+    if (!selectionActions?.range || !onHighlight) return;
+    window.getSelection()?.removeAllRanges();
+    setSelectionActions(null);
+    onHighlight(quoteAt(content, selectionActions.range));
+  };
+
+  const highlightRanges = (highlights ?? [])
+    .map(highlight => ({ highlight, range: locateQuote(content, highlight) }))
+    .filter((entry): entry is { highlight: TextHighlight; range: TextRange } => !!entry.range);
+  const highlightAt = (start: number, end: number) =>
+    highlightRanges.find(({ range }) => start < range.end && end > range.start)?.highlight;
+
+  // Split content by Diagram tags
+  // Tag format: [DIAGRAM: description]
+  const parts = content.split(/(\[DIAGRAM:\s*.*?\])/g);
+  let partStart = 0;
+
+  return (
+    <div className="interactive-content" onMouseUp={handleSelectionEnd} onKeyUp={handleSelectionEnd}>
+      {parts.map((part, index) => {
+        const partOffset = partStart;
+        partStart += part.length;
+        const diagramMatch = part.match(/^\[DIAGRAM:\s*(.*?)\]$/);
+
+        if (diagramMatch) {
+          const prompt = diagramMatch[1];
+          const imageBase64 = images?.[prompt];
+
+          if (imageBase64) {
+            return (
+              <div key={index} className="diagram-container" style={{ margin: '2rem 0' }}>
+                <img
+                  src={`data:image/png;base64,${imageBase64}`}
+                  alt={`Generated Diagram: ${prompt}`}
+                  className="diagram-image"
+                />
+                <p style={{ fontSize: '0.8em', color: '#666', textAlign: 'center' }}>Figure: {prompt}</p>
+              </div>
+            );
+          } else {
+             return (
+               <div key={index} style={{ padding: '1rem', backgroundColor: '#f9f9f9', border: '1px dashed #ccc', margin: '1rem 0', fontSize: '0.9em', color: '#666' }}>
+                  Generating visual for: {prompt}...
+               </div>
+             );
+          }
+        }
+
+        // Standard Text Rendering: single words and detected multi-word phrases each link to one topic
+        const segments = segmentText(part);
+        let offset = 0;
+        return (
+          <p key={index} style={{ margin: '0 0 1rem 0', display: 'inline' }}>
+            {segments.map((segment, sIndex) => {
+              const target = segment.target;
+              const start = offset;
+              offset += segment.text.length;
+              const highlight = highlightAt(partOffset + start, partOffset + offset);
+              const highlightClass = highlight ? ' annotation-highlight' : '';
+              if (target && onWordClick) {
+                return (
+                  <button
+                    key={sIndex}
+                    onClick={() => {
+                      if (longPressedRef.current) {
+                        longPressedRef.current = false;
+                        return;
+                      }
+                      if (!hasTextSelection()) onWordClick(target, sentenceAround(part, start));
+                    }}
+                    onMouseEnter={(e) => {
+                      onWordHover?.(target);
+                      schedulePreview(target, e.currentTarget);
+                    }}
+                    onMouseLeave={() => {
+                      cancelPreviewTimer();
+                      onWordPreviewEnd?.();
+                    }}
+                    onTouchStart={(e) => {
+                      longPressedRef.current = false;
+                      schedulePreview(target, e.currentTarget, () => {
+                        longPressedRef.current = true;
+                      });
+                    }}
+                    onTouchMove={cancelPreviewTimer}
+                    onTouchEnd={cancelPreviewTimer}
+                    onContextMenu={(e) => {
+                      // The long press already opened a preview; skip the browser's own menu.
+                      if (longPressedRef.current) e.preventDefault();
+                    }}
+                    className={(segment.isPhrase ? 'interactive-word interactive-phrase' : 'interactive-word') + highlightClass}
+                    aria-label={`Learn more about ${target}`}
+                    title={highlight?.note || undefined}
+                    data-offset={partOffset + start}
+                  >
+                    {segment.text}
+                  </button>
+                );
+              }
+              return (
+                <span key={sIndex} className={highlightClass.trim() || undefined} title={highlight?.note || undefined} data-offset={partOffset + start}>
+                  {segment.text}
+                </span>
+              );
+            })}
+          </p>
+        );
+      })}
+      {selectionActions && (
+        <div
+          className="selection-actions"
+          style={{ left: selectionActions.left, top: selectionActions.top }}
+          // Keep the selection alive until the click lands
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {selectionActions.topic && (
+            <button className="phrase-selection-button" onClick={handleExploreSelection}>
+              Explore “{selectionActions.topic}”
+            </button>
+          )}
+          {selectionActions.range && (
+            <button className="phrase-selection-button" onClick={handleHighlightSelection}>
+              Highlight
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InteractiveContent;
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { ImportConflictStrategy } from '../services/articleCache';
+import type { Bookmark, BookmarkCollection } from '../services/bookmarks';
+import {
+  type BundleImportResult,
+  createKnowledgeBundle,
+  importKnowledgeBundle,
+  parseKnowledgeBundle,
+  type TabTrail,
+} from '../services/knowledgeBundle';
+
+interface KnowledgeBundlePanelProps {
+  tabs: TabTrail[];
+  searchHistory: string[];
+  collections: BookmarkCollection[];
+  bookmarks: Bookmark[];
+  onImportTabs: (tabs: TabTrail[]) => void;
+  onImportSearchHistory: (history: string[]) => void;
+  onImportBookmarks: (collections: BookmarkCollection[], bookmarks: Bookmark[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGY_LABELS: Record<ImportConflictStrategy, string> = {
+  'merge-versions': 'Keep both as versions (newest shown)',
+  'keep-mine': 'Keep my articles',
+  'take-theirs': 'Replace with imported articles',
+};
+
+const KnowledgeBundlePanel: React.FC<KnowledgeBundlePanelProps> = ({
+  tabs,
+  searchHistory,
+  collections,
+  bookmarks,
+  onImportTabs,
+  onImportSearchHistory,
+  onImportBookmarks,
+  onClose,
+}) => {
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('merge-versions');
+  const [openTabs, setOpenTabs] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [result, setResult] = useState<BundleImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const bundle = await createKnowledgeBundle(tabs, searchHistory, collections, bookmarks);
+      const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `infinite-wiki-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const bundle = parseKnowledgeBundle(await file.text());
+      const imported = await importKnowledgeBundle(bundle, strategy);
+      if (openTabs && imported.tabs.length > 0) onImportTabs(imported.tabs);
+      onImportSearchHistory(imported.searchHistory);
+      onImportBookmarks(imported.collections, imported.bookmarks);
+      setResult(imported);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">Export &amp; Import</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close export and import">&times;</button>
+        </header>
+        <div className="modal-body settings-panel">
+          <section>
+            <h3>Export</h3>
+            <p className="settings-hint">
+              Saves every cached article with its versions and sources, all diagrams, the trails of your open tabs, your bookmarks and collections with their saved content, and your search history as one JSON file. Uploaded documents are not included.
+            </p>
+            <button className="settings-reset-button" onClick={handleExport} disabled={isBusy}>Download bundle</button>
+          </section>
+
+          <section>
+            <h3>Import</h3>
+            <label className="settings-row">
+              <span>When an article already exists</span>
+              <select value={strategy} onChange={(e) => setStrategy(e.target.value as ImportConflictStrategy)}>
+                {(Object.keys(STRATEGY_LABELS) as ImportConflictStrategy[]).map(key => (
+                  <option key={key} value={key}>{STRATEGY_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-row">
+              <span>Open the bundle's tabs</span>
+              <input type="checkbox" checked={openTabs} onChange={(e) => setOpenTabs(e.target.checked)} />
+            </label>
+            <label className="settings-row">
+              <span>Bundle file</span>
+              <input
+                type="file"
+                accept="application/json,.json"
+                disabled={isBusy}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {result && (
+              <p className="settings-hint">
+                Imported {result.articles.added} new articles, merged {result.articles.merged}, replaced {result.articles.replaced} and kept {result.articles.skipped} of yours; added {result.diagramsAdded} diagrams
+                {result.bookmarks.length > 0 && `, read ${result.bookmarks.length} bookmarks`}
+                {openTabs && result.tabs.length > 0 && ` and opened ${result.tabs.length} tabs`}.
+              </p>
+            )}
+            {error && <p className="usage-warning">{error}</p>}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBundlePanel;
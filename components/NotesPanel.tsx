@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { Annotation } from '../services/annotations';
+
+interface NotesPanelProps {
+  annotations: Annotation[];
+  onOpen: (annotation: Annotation) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const describeSource = ({ route, document }: Annotation) => [
+  document && (document.page !== null ? `${document.name}, page ${document.page + 1}` : document.name),
+  route.section > 0 && `section ${route.section + 1}`,
+  route.language,
+].filter(Boolean).join(' · ');
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ annotations, onOpen, onRemove, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const query = filter.trim().toLowerCase();
+  const listed = annotations
+    .filter(annotation => !query || [annotation.title, annotation.quote, annotation.note].some(text => text.toLowerCase().includes(query)))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">My notes</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close notes">&times;</button>
+        </header>
+        <div className="modal-body notes-panel">
+          {annotations.length === 0 ? (
+            <p className="settings-hint">Select text in an article and choose Highlight to keep a passage and add a note to it.</p>
+          ) : (
+            <>
+              <input
+                className="notes-filter"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter notes"
+                aria-label="Filter notes"
+              />
+              {listed.length === 0 && <p className="settings-hint">No notes match.</p>}
+              <ul className="notes-list">
+                {listed.map(annotation => (
+                  <li key={annotation.id} className="notes-item">
+                    <button className="notes-item-title" onClick={() => onOpen(annotation)}>{annotation.title}</button>
+                    <p className="settings-hint">{[describeSource(annotation), new Date(annotation.updatedAt).toLocaleDateString()].filter(Boolean).join(' · ')}</p>
+                    <blockquote className="annotation-quote">{annotation.quote}</blockquote>
+                    {annotation.note && <p className="notes-item-note">{annotation.note}</p>}
+                    <button className="settings-reset-button" onClick={() => onRemove(annotation.id)}>Delete</button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+
+export interface PreviewAnchor {
+  left: number;
+  top: number;
+  bottom: number;
+}
+
+interface PreviewCardProps {
+  topic: string;
+  anchor: PreviewAnchor;
+  sentence: string | null; // Null while loading
+  error: string | null;
+  isBookmarked: boolean;
+  onOpenHere: () => void;
+  onOpenInNewTab: () => void;
+  onToggleBookmark: () => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+  onClose: () => void;
+}
+
+const CARD_WIDTH = 320;
+
+const PreviewCard: React.FC<PreviewCardProps> = ({
+  topic,
+  anchor,
+  sentence,
+  error,
+  isBookmarked,
+  onOpenHere,
+  onOpenInNewTab,
+  onToggleBookmark,
+  onMouseEnter,
+  onMouseLeave,
+  onClose,
+}) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Escape, or a tap anywhere else, dismisses the card; touch has no mouse leaving it.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!cardRef.current?.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [onClose]);
+
+  // Below the word, or above it when there is no room; kept inside the viewport horizontally.
+  const left = Math.max(8, Math.min(anchor.left, window.innerWidth - CARD_WIDTH - 8));
+  const placeAbove = anchor.bottom + 180 > window.innerHeight;
+  const style: React.CSSProperties = placeAbove
+    ? { left, bottom: window.innerHeight - anchor.top + 6, width: CARD_WIDTH }
+    : { left, top: anchor.bottom + 6, width: CARD_WIDTH };
+
+  return (
+    <div
+      ref={cardRef}
+      className="preview-card"
+      style={style}
+      role="dialog"
+      aria-label={`Preview of ${topic}`}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+    >
+      <h3 className="preview-card-title">{topic}</h3>
+      {error
+        ? <p className="preview-card-text usage-warning">{error}</p>
+        : <p className="preview-card-text">{sentence ?? 'Loading…'}</p>}
+      <div className="preview-card-actions">
+        <button onClick={onOpenHere}>Open here</button>
+        <button onClick={onOpenInNewTab}>Open in new tab</button>
+        <button onClick={onToggleBookmark} aria-pressed={isBookmarked}>
+          {isBookmarked ? '★ Bookmarked' : '☆ Bookmark'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewCard;
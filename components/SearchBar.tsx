@@ -4,6 +4,8 @@
 */
 import React, { useState } from 'react';
 import SearchHistoryDropdown from './SearchHistoryDropdown';
+import { READING_DEPTHS, type ReadingDepth } from '../services/readingDepth';
+import { LANGUAGES } from '../services/languages';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
@@ -13,6 +15,7 @@ interface SearchBarProps {
   onForward: () => void;
   canGoBack: boolean;
   canGoForward: boolean;
+  onShowHistory: () => void;
   onFileUpload: (file: File) => void;
   onClearDocument: () => void;
   onViewDocument: () => void;
@@ -20,23 +23,16 @@ interface SearchBarProps {
   searchHistory: string[];
   isWebSearchMode: boolean;
   onWebSearchModeChange: (isWebSearch: boolean) => void;
+  isStructuredMode: boolean;
+  onStructuredModeChange: (isStructured: boolean) => void;
   currentLanguage: string;
   onLanguageChange: (lang: string) => void;
+  currentDepth: ReadingDepth;
+  onDepthChange: (depth: ReadingDepth) => void;
+  isWikiTopic: boolean; // Reading level only applies to plain wiki topics, not documents, URLs or videos
+  onOpenSettings: () => void;
 }
 
-const LANGUAGES = [
-  'English',
-  'Spanish',
-  'French',
-  'German',
-  'Chinese (Simplified)',
-  'Japanese',
-  'Hindi',
-  'Arabic',
-  'Portuguese',
-  'Russian'
-];
-
 const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   onRandom,
@@ -45,6 +41,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
   onForward,
   canGoBack,
   canGoForward,
+  onShowHistory,
   onFileUpload,
   onClearDocument,
   onViewDocument,
@@ -52,11 +49,21 @@ const SearchBar: React.FC<SearchBarProps> = ({
   searchHistory,
   isWebSearchMode,
   onWebSearchModeChange,
+  isStructuredMode,
+  onStructuredModeChange,
   currentLanguage,
-  onLanguageChange
+  onLanguageChange,
+  currentDepth,
+  onDepthChange,
+  isWikiTopic,
+  onOpenSettings
 }) => {
   const [query, setQuery] = useState('');
   const [isInputFocused, setIsInputFocused] = useState(false);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+
+  const canShowHistory = searchHistory.length > 0 && !documentName && !isWebSearchMode;
+  const isHistoryShown = isInputFocused && canShowHistory;
 
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
@@ -71,6 +78,31 @@ const SearchBar: React.FC<SearchBarProps> = ({
     onSearch(topic);
     setQuery(''); // Clear input
     setIsInputFocused(false);
+    setHistoryIndex(-1);
+  };
+
+  // Up and down go through recent searches, Enter opens the one picked and Escape hides the list.
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!canShowHistory) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setIsInputFocused(true);
+      const next = historyIndex + (event.key === 'ArrowDown' ? 1 : -1);
+      setHistoryIndex(next < -1 ? searchHistory.length - 1 : next >= searchHistory.length ? -1 : next);
+    } else if (event.key === 'Enter' && isHistoryShown && historyIndex >= 0) {
+      event.preventDefault();
+      handleHistorySelect(searchHistory[historyIndex]);
+    } else if (event.key === 'Escape') {
+      setIsInputFocused(false);
+      setHistoryIndex(-1);
+    }
+  };
+
+  // The upload label stands in for the hidden file input, so it needs to answer the keyboard itself.
+  const handleUploadKeyDown = (event: React.KeyboardEvent<HTMLLabelElement>) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    document.getElementById('file-upload')?.click();
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -111,6 +143,14 @@ const SearchBar: React.FC<SearchBarProps> = ({
           >
             →
           </button>
+          <button
+            onClick={onShowHistory}
+            className="nav-button nav-arrow"
+            aria-label="Show history tree"
+            title="History"
+          >
+            ☰
+          </button>
         </div>
         
         <form onSubmit={handleSubmit} className="search-form" role="search">
@@ -118,13 +158,19 @@ const SearchBar: React.FC<SearchBarProps> = ({
             <input
               type="text"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setHistoryIndex(-1);
+              }}
+              onKeyDown={handleInputKeyDown}
               onFocus={() => setIsInputFocused(true)}
               // Increased delay and added check to allow click propagation on history items
               onBlur={() => setTimeout(() => setIsInputFocused(false), 300)}
               placeholder={placeholderText}
               className="search-input"
               aria-label="Search for a topic"
+              aria-controls={isHistoryShown ? 'search-history-list' : undefined}
+              aria-activedescendant={isHistoryShown && historyIndex >= 0 ? `search-history-${historyIndex}` : undefined}
               disabled={isLoading}
               autoComplete="off"
             />
@@ -137,9 +183,9 @@ const SearchBar: React.FC<SearchBarProps> = ({
               GO
             </button>
           </div>
-          {isInputFocused && searchHistory.length > 0 && !documentName && !isWebSearchMode && (
+          {isHistoryShown && (
             <div onMouseDown={(e) => e.preventDefault()}> {/* Prevent blur on mousedown */}
-              <SearchHistoryDropdown history={searchHistory} onSelect={handleHistorySelect} />
+              <SearchHistoryDropdown history={searchHistory} onSelect={handleHistorySelect} activeIndex={historyIndex} />
             </div>
           )}
         </form>
@@ -167,6 +213,28 @@ const SearchBar: React.FC<SearchBarProps> = ({
           ))}
         </select>
 
+        {isWikiTopic && (
+          <select
+            value={currentDepth}
+            onChange={(e) => onDepthChange(e.target.value as ReadingDepth)}
+            className="language-selector"
+            disabled={isLoading}
+            aria-label="Reading level"
+            style={{
+              border: 'none',
+              background: 'transparent',
+              font: 'inherit',
+              color: '#555',
+              cursor: 'pointer',
+              paddingRight: '1rem'
+            }}
+          >
+            {READING_DEPTHS.map(level => (
+              <option key={level.id} value={level.id}>{level.label}</option>
+            ))}
+          </select>
+        )}
+
         <label className="ai-search-toggle">
           Web Search
           <div className="toggle-switch">
@@ -174,6 +242,16 @@ const SearchBar: React.FC<SearchBarProps> = ({
             <span className="toggle-slider"></span>
           </div>
         </label>
+
+        {!isWebSearchMode && !documentName && (
+          <label className="ai-search-toggle">
+            Full Article
+            <div className="toggle-switch">
+              <input type="checkbox" checked={isStructuredMode} onChange={(e) => onStructuredModeChange(e.target.checked)} disabled={isLoading} />
+              <span className="toggle-slider"></span>
+            </div>
+          </label>
+        )}
         
         {!isWebSearchMode && (
           <>
@@ -186,7 +264,14 @@ const SearchBar: React.FC<SearchBarProps> = ({
               accept="*" 
               disabled={isLoading}
             />
-            <label htmlFor="file-upload" className={`nav-button ${isLoading ? 'disabled' : ''}`}>
+            <label
+              htmlFor="file-upload"
+              className={`nav-button ${isLoading ? 'disabled' : ''}`}
+              role="button"
+              tabIndex={isLoading ? -1 : 0}
+              aria-disabled={isLoading}
+              onKeyDown={handleUploadKeyDown}
+            >
               Upload
             </label>
             {documentName && (
@@ -214,6 +299,10 @@ const SearchBar: React.FC<SearchBarProps> = ({
             )}
           </>
         )}
+
+        <button onClick={onOpenSettings} className="nav-button" aria-label="Open settings">
+          Settings
+        </button>
       </div>
     </div>
   );
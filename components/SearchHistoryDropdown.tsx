@@ -7,14 +7,21 @@ import React from 'react';
 interface SearchHistoryDropdownProps {
   history: string[];
   onSelect: (topic: string) => void;
+  activeIndex: number; // Picked with the arrow keys in the search input; -1 for none
 }
 
-const SearchHistoryDropdown: React.FC<SearchHistoryDropdownProps> = ({ history, onSelect }) => {
+const SearchHistoryDropdown: React.FC<SearchHistoryDropdownProps> = ({ history, onSelect, activeIndex }) => {
   return (
-    <ul className="search-history-dropdown">
+    <ul className="search-history-dropdown" role="listbox" id="search-history-list">
       {history.map((topic, index) => (
-        <li key={index} className="search-history-item">
-          <button onClick={() => onSelect(topic)}>
+        <li
+          key={index}
+          id={`search-history-${index}`}
+          className={`search-history-item ${index === activeIndex ? 'active' : ''}`}
+          role="option"
+          aria-selected={index === activeIndex}
+        >
+          <button onClick={() => onSelect(topic)} tabIndex={-1}>
             {topic}
           </button>
         </li>
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface SensePickerProps {
+  sense: string | null;
+  // Common meanings of the topic; empty when they are not known (after going back, for example).
+  senses: string[];
+  disabled: boolean;
+  onChange: (sense: string) => void;
+}
+
+const SensePicker: React.FC<SensePickerProps> = ({ sense, senses, disabled, onChange }) => {
+  if (senses.length > 1) {
+    // A remembered or linked meaning may not be in a newly detected list, but it is what is shown.
+    const options = sense && !senses.includes(sense) ? [sense, ...senses] : senses;
+    return (
+      <div className="sense-picker">
+        <label>
+          Meaning
+          <select value={sense ?? ''} onChange={(e) => onChange(e.target.value)} disabled={disabled}>
+            {options.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </label>
+      </div>
+    );
+  }
+  if (!sense) return null;
+  return <div className="sense-picker">Meaning: {sense}</div>;
+};
+
+export default SensePicker;
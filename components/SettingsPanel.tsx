@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import {
+  DEFAULT_MODEL_ROLES,
+  getGenerationSettings,
+  type GenerationSettings,
+  type ModeSettings,
+  resetGenerationSettings,
+  SETTINGS_MODE_LABELS,
+  type SettingsMode,
+  setModeSettings,
+} from '../services/generationSettings';
+import { getModelProvider, modelProviderError } from '../services/modelProvider';
+import { getPrefetchSettings, type PrefetchSettings, setPrefetchSettings } from '../services/prefetch';
+import {
+  getActivePromptTemplate,
+  listPromptTemplates,
+  PROMPT_MODE_LABELS,
+  type PromptMode,
+  setActivePromptTemplate,
+} from '../services/promptRegistry';
+import { PRICED_MODELS } from '../services/usage';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const PROMPT_MODES = Object.keys(PROMPT_MODE_LABELS) as PromptMode[];
+const SETTINGS_MODES = Object.keys(SETTINGS_MODE_LABELS) as SettingsMode[];
+
+// Empty inputs mean "use the default"; `min` is the smallest value the setting accepts.
+const parseOptionalNumber = (value: string, min: number = 0): number | null => value === '' ? null : Math.max(min, Number(value));
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [templateIds, setTemplateIds] = useState<Record<PromptMode, string>>(() =>
+    Object.fromEntries(PROMPT_MODES.map(mode => [mode, getActivePromptTemplate(mode).id])) as Record<PromptMode, string>
+  );
+
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(getGenerationSettings);
+  // Missing when MODEL_PROVIDER names no known provider; the settings still open without its defaults.
+  const provider = modelProviderError() ? null : getModelProvider();
+  const modelSuggestions = [...new Set([
+    ...Object.values(provider?.models ?? {}),
+    ...(!provider || provider.id === 'gemini' ? PRICED_MODELS : []),
+  ])].filter(Boolean);
+
+  const handleModeSettingsChange = (mode: SettingsMode, changes: Partial<ModeSettings>) => {
+    const next = { ...generationSettings[mode], ...changes };
+    setModeSettings(mode, next);
+    setGenerationSettings(prev => ({ ...prev, [mode]: next }));
+  };
+
+  const handleResetGenerationSettings = () => {
+    resetGenerationSettings();
+    setGenerationSettings(getGenerationSettings());
+  };
+
+  const [prefetchSettings, setPrefetchSettingsState] = useState<PrefetchSettings>(getPrefetchSettings);
+
+  const handlePrefetchChange = (changes: Partial<PrefetchSettings>) => {
+    const next = { ...prefetchSettings, ...changes };
+    setPrefetchSettings(next);
+    setPrefetchSettingsState(next);
+  };
+
+  const handleTemplateChange = (mode: PromptMode, templateId: string) => {
+    setActivePromptTemplate(mode, templateId);
+    setTemplateIds(prev => ({ ...prev, [mode]: templateId }));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">Settings</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close settings">&times;</button>
+        </header>
+        <div className="modal-body settings-panel">
+          <section>
+            <h3>Models</h3>
+            <p className="settings-hint">Leave a field empty to use the default. Links and YouTube videos always search the web.</p>
+            <datalist id="settings-model-options">
+              {modelSuggestions.map(model => <option key={model} value={model} />)}
+            </datalist>
+            {SETTINGS_MODES.map(mode => {
+              const settings = generationSettings[mode];
+              const isImageMode = mode === 'diagram';
+              return (
+                <fieldset key={mode} className="settings-mode">
+                  <legend>{SETTINGS_MODE_LABELS[mode]}</legend>
+                  <label className="settings-row">
+                    <span>Model</span>
+                    <input
+                      list="settings-model-options"
+                      placeholder={provider?.models[DEFAULT_MODEL_ROLES[mode]]}
+                      value={settings.model ?? ''}
+                      onChange={(e) => handleModeSettingsChange(mode, { model: e.target.value.trim() || null })}
+                    />
+                  </label>
+                  {!isImageMode && (
+                    <>
+                      <label className="settings-row">
+                        <span>Temperature</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="2"
+                          step="0.1"
+                          placeholder="Default"
+                          value={settings.temperature ?? ''}
+                          onChange={(e) => handleModeSettingsChange(mode, { temperature: parseOptionalNumber(e.target.value) })}
+                        />
+                      </label>
+                      <label className="settings-row">
+                        <span>Max output tokens</span>
+                        <input
+                          type="number"
+                          min="1"
+                          step="256"
+                          placeholder="Default"
+                          value={settings.maxOutputTokens ?? ''}
+                          onChange={(e) => handleModeSettingsChange(mode, { maxOutputTokens: parseOptionalNumber(e.target.value, 1) })}
+                        />
+                      </label>
+                      <label className="settings-row">
+                        <span>Thinking budget (tokens, 0 for none)</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="256"
+                          placeholder="Default"
+                          value={settings.thinkingBudget ?? ''}
+                          onChange={(e) => handleModeSettingsChange(mode, { thinkingBudget: parseOptionalNumber(e.target.value) })}
+                        />
+                      </label>
+                      <label className="settings-row">
+                        <span>Ground with web search</span>
+                        <input
+                          type="checkbox"
+                          checked={settings.useSearch}
+                          onChange={(e) => handleModeSettingsChange(mode, { useSearch: e.target.checked })}
+                        />
+                      </label>
+                    </>
+                  )}
+                </fieldset>
+              );
+            })}
+            <button className="settings-reset-button" onClick={handleResetGenerationSettings}>Reset to defaults</button>
+          </section>
+
+          <section>
+            <h3>Prefetch</h3>
+            <p className="settings-hint">
+              While you read, the words you are most likely to click next are generated in the background and cached, so they open instantly. Prefetching pauses whenever an article is loading.
+            </p>
+            <label className="settings-row">
+              <span>Prefetch likely next topics</span>
+              <input
+                type="checkbox"
+                checked={prefetchSettings.enabled}
+                onChange={(e) => handlePrefetchChange({ enabled: e.target.checked })}
+              />
+            </label>
+            <label className="settings-row">
+              <span>Words per article</span>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={prefetchSettings.perArticle}
+                onChange={(e) => handlePrefetchChange({ perArticle: Math.max(0, Number(e.target.value)) })}
+              />
+            </label>
+            <label className="settings-row">
+              <span>Words per session</span>
+              <input
+                type="number"
+                min="0"
+                value={prefetchSettings.perSession}
+                onChange={(e) => handlePrefetchChange({ perSession: Math.max(0, Number(e.target.value)) })}
+              />
+            </label>
+          </section>
+
+          <section>
+            <h3>Prompts</h3>
+            <p className="settings-hint">New generations use the selected template. Cached articles keep the prompt they were made with.</p>
+            {PROMPT_MODES.map(mode => {
+              const templates = listPromptTemplates(mode);
+              return (
+                <label key={mode} className="settings-row">
+                  <span>{PROMPT_MODE_LABELS[mode]}</span>
+                  <select
+                    value={templateIds[mode]}
+                    onChange={(e) => handleTemplateChange(mode, e.target.value)}
+                    disabled={templates.length < 2}
+                  >
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.label} (v{template.version})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              );
+            })}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
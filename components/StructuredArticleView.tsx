@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import InteractiveContent from './InteractiveContent';
+import type { QuotedPassage, TextHighlight } from '../services/annotations';
+import { parseStructuredArticle } from '../services/structuredArticle';
+
+interface StructuredArticleViewProps {
+  content: string;
+  isLoading: boolean;
+  onWordClick?: (word: string, sentence?: string) => void;
+  onWordHover?: (word: string) => void;
+  onWordPreview?: (word: string, anchor: DOMRect) => void;
+  onWordPreviewEnd?: () => void;
+  images?: Record<string, string>; // prompt -> base64
+  highlights?: TextHighlight[];
+  onHighlight?: (passage: QuotedPassage) => void;
+}
+
+const StructuredArticleView: React.FC<StructuredArticleViewProps> = ({ content, isLoading, onWordClick, onWordHover, onWordPreview, onWordPreviewEnd, images, highlights, onHighlight }) => {
+  const article = parseStructuredArticle(content);
+
+  // Words only become clickable once the stream has finished, matching plain articles.
+  const renderText = (text: string) => isLoading
+    ? <span>{text}</span>
+    : <InteractiveContent content={text} onWordClick={onWordClick} onWordHover={onWordHover} onWordPreview={onWordPreview} onWordPreviewEnd={onWordPreviewEnd} images={images} highlights={highlights} onHighlight={onHighlight} />;
+
+  return (
+    <article className="structured-article">
+      {article.lead && (
+        <div className="article-lead">{renderText(article.lead)}</div>
+      )}
+
+      {article.keyFacts.length > 0 && (
+        <aside className="article-key-facts">
+          <h3>Key facts</h3>
+          <ul>
+            {article.keyFacts.map((fact, index) => (
+              <li key={index}>{renderText(fact)}</li>
+            ))}
+          </ul>
+        </aside>
+      )}
+
+      {article.sections.map((section, index) => (
+        <section key={index} className="article-section">
+          <h3>{renderText(section.heading)}</h3>
+          {section.body.split('\n').map((paragraph, pIndex) => (
+            <div key={pIndex} className="article-paragraph">{renderText(paragraph)}</div>
+          ))}
+        </section>
+      ))}
+
+      {article.relatedTopics.length > 0 && (
+        <nav className="article-related" aria-label="Related topics">
+          <h3>Related topics</h3>
+          <ul>
+            {article.relatedTopics.map((topic, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => onWordClick?.(topic)}
+                  className="interactive-word"
+                  disabled={isLoading || !onWordClick}
+                  aria-label={`Learn more about ${topic}`}
+                >
+                  {topic}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      )}
+
+      {isLoading && <span className="blinking-cursor">|</span>}
+    </article>
+  );
+};
+
+export default StructuredArticleView;
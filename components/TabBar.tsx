@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useRef } from 'react';
 
 export interface TabData {
   id: string;
@@ -16,19 +16,46 @@ interface TabBarProps {
   onSwitchTab: (id: string) => void;
   onCloseTab: (id: string) => void;
   onNewTab: () => void;
+  onReopenClosedTab: () => void;
+  canReopenClosedTab: boolean;
 }
 
-const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSwitchTab, onCloseTab, onNewTab }) => {
+const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSwitchTab, onCloseTab, onNewTab, onReopenClosedTab, canReopenClosedTab }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The tabs are one tab stop: arrow keys, Home and End switch tabs and take focus along; Delete closes one.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+    let next: number;
+    switch (e.key) {
+      case 'ArrowRight': next = (index + 1) % tabs.length; break;
+      case 'ArrowLeft': next = (index - 1 + tabs.length) % tabs.length; break;
+      case 'Home': next = 0; break;
+      case 'End': next = tabs.length - 1; break;
+      case 'Delete':
+        e.preventDefault();
+        onCloseTab(tabs[index].id);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    onSwitchTab(tabs[next].id);
+    listRef.current?.querySelectorAll<HTMLElement>('[role="tab"]')[next]?.focus();
+  };
+
   return (
     <div className="tab-bar">
-      <div className="tabs-list">
-        {tabs.map((tab) => (
+      <div className="tabs-list" role="tablist" aria-label="Tabs" ref={listRef}>
+        {tabs.map((tab, index) => (
           <div
             key={tab.id}
             className={`tab-item ${tab.id === activeTabId ? 'active' : ''}`}
             onClick={() => onSwitchTab(tab.id)}
+            onKeyDown={(e) => handleKeyDown(e, index)}
             role="tab"
+            tabIndex={tab.id === activeTabId ? 0 : -1}
             aria-selected={tab.id === activeTabId}
+            aria-keyshortcuts="Delete"
             title={tab.title}
           >
             <span className="tab-title">
@@ -40,6 +67,8 @@ const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSwitchTab, onClose
                 e.stopPropagation(); // Prevent switching when closing
                 onCloseTab(tab.id);
               }}
+              // Delete closes the focused tab
+              tabIndex={-1}
               aria-label="Close tab"
             >
               &times;
@@ -50,6 +79,15 @@ const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSwitchTab, onClose
       <button className="new-tab-button" onClick={onNewTab} aria-label="Open new tab">
         +
       </button>
+      <button
+        className="new-tab-button"
+        onClick={onReopenClosedTab}
+        disabled={!canReopenClosedTab}
+        aria-label="Reopen closed tab"
+        title="Reopen closed tab"
+      >
+        ↺
+      </button>
     </div>
   );
 };
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { formatCost, type UsageBudget, type UsageRecord, type UsageTotals } from '../services/usage';
+
+interface UsagePanelProps {
+  sessionUsage: UsageTotals;
+  tabUsage: UsageTotals;
+  tabTitle: string;
+  records: UsageRecord[];
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onClose: () => void;
+}
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <tr>
+    <th scope="row">{label}</th>
+    <td>{totals.requests}</td>
+    <td>{totals.inputTokens.toLocaleString()}</td>
+    <td>{totals.outputTokens.toLocaleString()}</td>
+    <td>{formatCost(totals.costUsd)}</td>
+  </tr>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ sessionUsage, tabUsage, tabTitle, records, budget, onBudgetChange, onClose }) => {
+  const isOverBudget = budget.softLimitUsd !== null && sessionUsage.costUsd > budget.softLimitUsd;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2 className="modal-title">Usage</h2>
+          <button onClick={onClose} className="modal-close-button" aria-label="Close usage panel">&times;</button>
+        </header>
+        <div className="modal-body usage-panel">
+          <table className="usage-table">
+            <thead>
+              <tr><th></th><th>Requests</th><th>Input</th><th>Output</th><th>Cost</th></tr>
+            </thead>
+            <tbody>
+              <TotalsRow label={`Tab: ${tabTitle || 'New Tab'}`} totals={tabUsage} />
+              <TotalsRow label="Session" totals={sessionUsage} />
+            </tbody>
+          </table>
+
+          {isOverBudget && (
+            <p className="usage-warning">The session has passed its {formatCost(budget.softLimitUsd!)} budget.</p>
+          )}
+
+          <div className="usage-budget">
+            <label>
+              Session budget (USD)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="None"
+                value={budget.softLimitUsd ?? ''}
+                onChange={(e) => onBudgetChange({
+                  ...budget,
+                  softLimitUsd: e.target.value === '' ? null : Math.max(0, Number(e.target.value)),
+                })}
+              />
+            </label>
+            <label>
+              Warn above (input tokens per request)
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={budget.warnAboveInputTokens}
+                onChange={(e) => onBudgetChange({ ...budget, warnAboveInputTokens: Math.max(0, Number(e.target.value)) })}
+              />
+            </label>
+          </div>
+
+          {records.length > 0 && (
+            <>
+              <h3>Recent requests</h3>
+              <table className="usage-table">
+                <thead>
+                  <tr><th>Mode</th><th>Model</th><th>Input</th><th>Output</th><th>Cost</th></tr>
+                </thead>
+                <tbody>
+                  {records.map((record, index) => (
+                    <tr key={index} title={record.estimated ? 'Estimated from text length' : undefined}>
+                      <td>{record.mode}</td>
+                      <td>{record.model}</td>
+                      <td>{record.estimated && '~'}{record.inputTokens.toLocaleString()}</td>
+                      <td>{record.estimated && '~'}{record.outputTokens.toLocaleString()}</td>
+                      <td>{formatCost(record.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { ArticleVersion } from '../services/articleCache';
+
+interface VersionBarProps {
+  // Newest first.
+  versions: ArticleVersion[];
+  viewedVersion: number;
+  compareVersion: number | null;
+  onSelectVersion: (index: number) => void;
+  onCompareVersion: (index: number | null) => void;
+  onRegenerate: () => void;
+}
+
+const describeVersion = (version: ArticleVersion, index: number, total: number) =>
+  [
+    `v${total - index}`,
+    new Date(version.createdAt).toLocaleString(),
+    version.model,
+    version.promptVersion,
+  ].filter(Boolean).join(' · ');
+
+const VersionBar: React.FC<VersionBarProps> = ({ versions, viewedVersion, compareVersion, onSelectVersion, onCompareVersion, onRegenerate }) => {
+  const total = versions.length;
+
+  return (
+    <div className="version-bar">
+      <button className="version-regenerate-button" onClick={onRegenerate}>Regenerate</button>
+      {total > 1 && (
+        <>
+          <label>
+            Version
+            <select value={viewedVersion} onChange={(e) => onSelectVersion(Number(e.target.value))}>
+              {versions.map((version, index) => (
+                <option key={index} value={index}>{describeVersion(version, index, total)}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Compare with
+            <select
+              value={compareVersion ?? ''}
+              onChange={(e) => onCompareVersion(e.target.value === '' ? null : Number(e.target.value))}
+            >
+              <option value="">None</option>
+              {versions.map((version, index) => index !== viewedVersion && (
+                <option key={index} value={index}>{describeVersion(version, index, total)}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VersionBar;
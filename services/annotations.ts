@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BookmarkDocument } from './bookmarks';
+import { hashString } from './hash';
+import type { Route } from './routing';
+
+/**
+ * A highlighted passage of an article or document page, with the reader's note on it.
+ */
+export interface Annotation {
+  id: string;
+  viewKey: string; // The article's cache key, with the page for document pages
+  contentHash: string; // The version highlighted; other versions may not contain the passage
+  quote: string;
+  prefix: string; // Text just before the quote, to tell repeated passages apart
+  note: string;
+  // Where the passage came from, for listing it and opening it again
+  title: string;
+  route: Route;
+  document: BookmarkDocument | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A passage as stored, findable again in the text it was taken from.
+export type QuotedPassage = Pick<Annotation, 'quote' | 'prefix'>;
+
+// What the article view needs to draw a highlight.
+export type TextHighlight = Pick<Annotation, 'id' | 'quote' | 'prefix' | 'note'>;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const ANNOTATIONS_STORAGE_KEY = 'infinite-wiki:annotations';
+
+const PREFIX_LENGTH = 32;
+
+export function loadAnnotations(): Annotation[] {
+  try {
+    const raw = localStorage.getItem(ANNOTATIONS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn('Could not read notes.', e);
+  }
+  return [];
+}
+
+export function saveAnnotations(annotations: Annotation[]): void {
+  try {
+    localStorage.setItem(ANNOTATIONS_STORAGE_KEY, JSON.stringify(annotations));
+  } catch (e) {
+    console.warn('Could not save notes.', e);
+  }
+}
+
+/**
+ * Identifies a version of an article by its text.
+ */
+export function contentHash(content: string): string {
+  return hashString(content);
+}
+
+/**
+ * The quote and prefix to store for `text.slice(start, end)`.
+ */
+export function quoteAt(text: string, range: TextRange): QuotedPassage {
+  return {
+    quote: text.slice(range.start, range.end),
+    prefix: text.slice(Math.max(0, range.start - PREFIX_LENGTH), range.start),
+  };
+}
+
+/**
+ * Where a passage falls in `text`: the occurrence of its quote right after its prefix.
+ * Null when the text does not contain it, as in another version or another block of the article.
+ */
+export function locateQuote(text: string, passage: QuotedPassage): TextRange | null {
+  if (!passage.quote) return null;
+  for (let start = text.indexOf(passage.quote); start !== -1; start = text.indexOf(passage.quote, start + 1)) {
+    if (text.slice(0, start).endsWith(passage.prefix)) return { start, end: start + passage.quote.length };
+  }
+  return null;
+}
+
+export function addAnnotation(
+  annotations: Annotation[],
+  fields: Omit<Annotation, 'id' | 'note' | 'createdAt' | 'updatedAt'>
+): Annotation[] {
+  const now = Date.now();
+  const id = `note-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return [...annotations, { ...fields, id, note: '', createdAt: now, updatedAt: now }];
+}
+
+export function updateAnnotationNote(annotations: Annotation[], id: string, note: string): Annotation[] {
+  return annotations.map(annotation => annotation.id === id && annotation.note !== note
+    ? { ...annotation, note, updatedAt: Date.now() }
+    : annotation);
+}
+
+export function removeAnnotation(annotations: Annotation[], id: string): Annotation[] {
+  return annotations.filter(annotation => annotation.id !== id);
+}
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { requestToPromise, withStore } from './db';
+import { clearDiagramCache, deleteCachedDiagrams, diagramHash, extractDiagramPrompts, listCachedDiagrams } from './diagramCache';
+
+/**
+ * One generation of an article.
+ */
+export interface ArticleVersion {
+  content: string;
+  sources: any[];
+  generationTime: number | null;
+  promptVersion?: string; // Signature of the prompt template that produced the content
+  model?: string;
+  createdAt: number;
+}
+
+export interface CachedArticle extends ArticleVersion {
+  // Identifies the request: mode, document, topic, section, language and depth.
+  key: string;
+  topic: string;
+  language: string;
+  // Earlier generations replaced by "Regenerate", newest first. Missing on older entries.
+  previousVersions?: ArticleVersion[];
+  // Diagrams used by any version, stored separately so articles can share them. Missing on older entries.
+  diagramHashes?: string[];
+  sizeBytes: number;
+  lastAccessedAt: number;
+}
+
+export type NewCachedArticle = Omit<CachedArticle, 'previousVersions' | 'diagramHashes' | 'sizeBytes' | 'createdAt' | 'lastAccessedAt'>;
+
+/**
+ * What to do when an imported article already exists locally.
+ * `merge-versions` keeps both as versions, newest current; the others keep one side whole.
+ */
+export type ImportConflictStrategy = 'merge-versions' | 'keep-mine' | 'take-theirs';
+
+export interface ArticleImportResult {
+  added: number;
+  merged: number;
+  replaced: number;
+  skipped: number;
+}
+
+export const DEFAULT_CACHE_LIMIT_BYTES = 25 * 1024 * 1024;
+
+// Versions kept per article, including the current one.
+export const MAX_ARTICLE_VERSIONS = 10;
+
+const LIMIT_STORAGE_KEY = 'infinite-wiki:cache-limit';
+
+// Diagrams this young are kept even without an article, as theirs may still be streaming.
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+const sizeOf = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+
+export function getCacheLimit(): number {
+  const stored = Number(localStorage.getItem(LIMIT_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_CACHE_LIMIT_BYTES;
+}
+
+export function setCacheLimit(limitBytes: number): Promise<void> {
+  localStorage.setItem(LIMIT_STORAGE_KEY, String(limitBytes));
+  return evictToLimit(limitBytes);
+}
+
+/**
+ * Returns the cached article for a key and marks it as recently used, or null if there is none.
+ * Storage failures are logged and treated as a miss, so the app falls back to generating.
+ */
+export async function getCachedArticle(key: string): Promise<CachedArticle | null> {
+  try {
+    return await withStore('articles', 'readwrite', async store => {
+      const entry: CachedArticle | undefined = await requestToPromise(store.get(key));
+      if (!entry) return null;
+      const touched = { ...entry, lastAccessedAt: Date.now() };
+      store.put(touched);
+      return touched;
+    });
+  } catch (e) {
+    console.warn('Could not read from the article cache.', e);
+    return null;
+  }
+}
+
+/**
+ * Returns a cached article without marking it as used, for lookups that do not open it.
+ */
+export async function peekCachedArticle(key: string): Promise<CachedArticle | null> {
+  try {
+    return (await withStore('articles', 'readonly', store => requestToPromise(store.get(key)))) ?? null;
+  } catch (e) {
+    console.warn('Could not read from the article cache.', e);
+    return null;
+  }
+}
+
+/**
+ * Whether an article is cached, without marking it as used. Read failures count as absent.
+ */
+export async function hasCachedArticle(key: string): Promise<boolean> {
+  try {
+    return await withStore('articles', 'readonly', async store => (await requestToPromise(store.getKey(key))) !== undefined);
+  } catch (e) {
+    console.warn('Could not read from the article cache.', e);
+    return false;
+  }
+}
+
+const toVersion = ({ content, sources, generationTime, promptVersion, model, createdAt }: ArticleVersion): ArticleVersion =>
+  ({ content, sources, generationTime, promptVersion, model, createdAt });
+
+/**
+ * Every version of a cached article, newest (the current one) first.
+ */
+export function articleVersions(entry: CachedArticle): ArticleVersion[] {
+  return [toVersion(entry), ...(entry.previousVersions ?? [])];
+}
+
+// Recomputes the fields derived from an entry's versions.
+const finalizeEntry = (entry: Omit<CachedArticle, 'diagramHashes' | 'sizeBytes'>): CachedArticle => {
+  const versions = [entry, ...(entry.previousVersions ?? [])];
+  const diagramHashes = [...new Set(versions.flatMap(version => extractDiagramPrompts(version.content).map(diagramHash)))];
+  const next: CachedArticle = { ...entry, diagramHashes, sizeBytes: 0 };
+  next.sizeBytes = sizeOf(next);
+  return next;
+};
+
+/**
+ * Stores a new generation of an article. An existing entry for the key becomes a previous version.
+ * Resolves with the stored entry, or null if it could not be written.
+ */
+export async function putCachedArticle(article: NewCachedArticle): Promise<CachedArticle | null> {
+  const now = Date.now();
+  try {
+    const entry = await withStore('articles', 'readwrite', async store => {
+      const existing: CachedArticle | undefined = await requestToPromise(store.get(article.key));
+      const previousVersions = existing && existing.content !== article.content
+        ? articleVersions(existing).slice(0, MAX_ARTICLE_VERSIONS - 1)
+        : existing?.previousVersions ?? [];
+      const next = finalizeEntry({ ...article, previousVersions, createdAt: now, lastAccessedAt: now });
+      store.put(next);
+      return next;
+    });
+    await evictToLimit(getCacheLimit());
+    return entry;
+  } catch (e) {
+    console.warn('Could not write to the article cache.', e);
+    return null;
+  }
+}
+
+/**
+ * All cached articles, least recently used first.
+ */
+export function listCachedArticles(): Promise<CachedArticle[]> {
+  return withStore('articles', 'readonly', store => requestToPromise(store.index('lastAccessedAt').getAll()));
+}
+
+// Union of both entries' versions by content, newest first; the newest becomes current.
+const mergeEntries = (mine: CachedArticle, theirs: CachedArticle, now: number): CachedArticle => {
+  const seen = new Set<string>();
+  const versions = [...articleVersions(mine), ...articleVersions(theirs)]
+    .filter(version => !seen.has(version.content) && !!seen.add(version.content))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_ARTICLE_VERSIONS);
+  const [current, ...previousVersions] = versions;
+  return finalizeEntry({ ...mine, ...current, previousVersions, lastAccessedAt: now });
+};
+
+/**
+ * Writes articles from an imported bundle, resolving clashes with local entries by `strategy`.
+ * Imported articles count as just used, so eviction does not drop them straight away.
+ */
+export async function importCachedArticles(articles: CachedArticle[], strategy: ImportConflictStrategy): Promise<ArticleImportResult> {
+  const now = Date.now();
+  const result: ArticleImportResult = { added: 0, merged: 0, replaced: 0, skipped: 0 };
+
+  await withStore('articles', 'readwrite', async store => {
+    for (const article of articles) {
+      const existing: CachedArticle | undefined = await requestToPromise(store.get(article.key));
+      if (!existing) {
+        store.put(finalizeEntry({ ...article, lastAccessedAt: now }));
+        result.added++;
+      } else if (strategy === 'keep-mine') {
+        result.skipped++;
+      } else if (strategy === 'take-theirs') {
+        store.put(finalizeEntry({ ...article, lastAccessedAt: now }));
+        result.replaced++;
+      } else {
+        store.put(mergeEntries(existing, article, now));
+        result.merged++;
+      }
+    }
+  });
+
+  await evictToLimit(getCacheLimit());
+  return result;
+}
+
+export async function deleteCachedArticle(key: string): Promise<void> {
+  await withStore('articles', 'readwrite', store => { store.delete(key); });
+  await evictToLimit(getCacheLimit());
+}
+
+export async function clearArticleCache(): Promise<void> {
+  await withStore('articles', 'readwrite', store => { store.clear(); });
+  await clearDiagramCache();
+}
+
+/**
+ * Deletes least-recently-used articles until articles and diagrams together fit within the limit.
+ * A diagram is freed once no remaining article uses it; unused diagrams are deleted along the way.
+ */
+async function evictToLimit(limitBytes: number): Promise<void> {
+  const articles = await listCachedArticles();
+  const diagrams = await listCachedDiagrams();
+
+  const users = new Map<string, number>();
+  for (const article of articles) {
+    for (const hash of article.diagramHashes ?? []) users.set(hash, (users.get(hash) ?? 0) + 1);
+  }
+
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const orphans = diagrams.filter(diagram => !users.has(diagram.hash) && diagram.createdAt < cutoff);
+  const diagramSizes = new Map(diagrams.map(diagram => [diagram.hash, diagram.sizeBytes]));
+
+  let total = articles.reduce((sum, article) => sum + article.sizeBytes, 0)
+    + diagrams.reduce((sum, diagram) => sum + diagram.sizeBytes, 0)
+    - orphans.reduce((sum, diagram) => sum + diagram.sizeBytes, 0);
+
+  const evicted: string[] = [];
+  const freedDiagrams = orphans.map(diagram => diagram.hash);
+  for (const article of articles) {
+    if (total <= limitBytes) break;
+    evicted.push(article.key);
+    total -= article.sizeBytes;
+    for (const hash of article.diagramHashes ?? []) {
+      const remaining = users.get(hash)! - 1;
+      users.set(hash, remaining);
+      if (remaining === 0 && diagramSizes.has(hash)) {
+        freedDiagrams.push(hash);
+        total -= diagramSizes.get(hash)!;
+      }
+    }
+  }
+
+  if (evicted.length > 0) {
+    await withStore('articles', 'readwrite', store => {
+      for (const key of evicted) store.delete(key);
+    });
+  }
+  if (freedDiagrams.length > 0) {
+    await deleteCachedDiagrams(freedDiagrams);
+  }
+}
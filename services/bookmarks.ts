@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { requestToPromise, withStore } from './db';
+import { formatRoute, type Route } from './routing';
+
+/**
+ * The uploaded document a bookmarked answer or page came from.
+ */
+export interface BookmarkDocument {
+  name: string;
+  id: string | null; // Stored document, kept while a bookmark refers to it
+  page: number | null; // Page of a document being read, rather than a question about it
+}
+
+/**
+ * A saved view. The route (with the document, if any) is enough to open it again; the content
+ * saved with it, if any, lets it reopen without generating.
+ */
+export interface Bookmark {
+  id: string; // From the route and document, so one view is bookmarked at most once
+  title: string;
+  route: Route;
+  document: BookmarkDocument | null;
+  collectionId: string | null; // Null for unsorted bookmarks
+  tags: string[];
+  hasContent: boolean;
+  createdAt: number;
+}
+
+/**
+ * A named reading list.
+ */
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * What a bookmark keeps of its view, stored in IndexedDB as it can be large.
+ */
+export interface SavedContent {
+  id: string; // The bookmark's id
+  content: string;
+  sources: any[];
+}
+
+const BOOKMARKS_STORAGE_KEY = 'infinite-wiki:bookmarks';
+const COLLECTIONS_STORAGE_KEY = 'infinite-wiki:collections';
+
+export function bookmarkId(route: Route, document: BookmarkDocument | null = null): string {
+  const hash = formatRoute(route);
+  if (!document) return hash;
+  return `${hash}@doc(${document.name})${document.page !== null ? `#${document.page}` : ''}`;
+}
+
+// Bookmarks saved before collections existed have only an id, a route and a date.
+const withDefaults = (bookmark: any): Bookmark => ({
+  title: bookmark.route.topic,
+  document: null,
+  collectionId: null,
+  tags: [],
+  hasContent: false,
+  ...bookmark,
+});
+
+export function loadBookmarks(): Bookmark[] {
+  try {
+    const raw = localStorage.getItem(BOOKMARKS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw).filter((bookmark: any) => bookmark?.id && bookmark.route).map(withDefaults);
+  } catch (e) {
+    console.warn('Could not read bookmarks.', e);
+  }
+  return [];
+}
+
+export function saveBookmarks(bookmarks: Bookmark[]): void {
+  try {
+    localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(bookmarks));
+  } catch (e) {
+    console.warn('Could not save bookmarks.', e);
+  }
+}
+
+export function loadCollections(): BookmarkCollection[] {
+  try {
+    const raw = localStorage.getItem(COLLECTIONS_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn('Could not read bookmark collections.', e);
+  }
+  return [];
+}
+
+export function saveCollections(collections: BookmarkCollection[]): void {
+  try {
+    localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+  } catch (e) {
+    console.warn('Could not save bookmark collections.', e);
+  }
+}
+
+export function isBookmarked(bookmarks: Bookmark[], route: Route, document: BookmarkDocument | null = null): boolean {
+  const id = bookmarkId(route, document);
+  return bookmarks.some(bookmark => bookmark.id === id);
+}
+
+/**
+ * Adds a bookmark, replacing any earlier one of the same view. Newest first.
+ */
+export function addBookmark(
+  bookmarks: Bookmark[],
+  fields: Pick<Bookmark, 'title' | 'route' | 'document' | 'hasContent'>
+): Bookmark[] {
+  const id = bookmarkId(fields.route, fields.document);
+  const others = bookmarks.filter(bookmark => bookmark.id !== id);
+  return [{ ...fields, id, collectionId: null, tags: [], createdAt: Date.now() }, ...others];
+}
+
+export function removeBookmark(bookmarks: Bookmark[], id: string): Bookmark[] {
+  return bookmarks.filter(bookmark => bookmark.id !== id);
+}
+
+export function updateBookmark(bookmarks: Bookmark[], id: string, changes: Partial<Pick<Bookmark, 'title' | 'collectionId' | 'tags'>>): Bookmark[] {
+  return bookmarks.map(bookmark => bookmark.id === id ? { ...bookmark, ...changes } : bookmark);
+}
+
+/**
+ * Tags typed as a comma-separated list: trimmed, lowercase and without repeats.
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Every tag in use, alphabetically.
+ */
+export function bookmarkTags(bookmarks: Bookmark[]): string[] {
+  return [...new Set(bookmarks.flatMap(bookmark => bookmark.tags))].sort();
+}
+
+export function createCollection(collections: BookmarkCollection[], name: string): BookmarkCollection[] {
+  const id = `collection-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return [...collections, { id, name: name.trim(), createdAt: Date.now() }];
+}
+
+export function renameCollection(collections: BookmarkCollection[], id: string, name: string): BookmarkCollection[] {
+  return collections.map(collection => collection.id === id ? { ...collection, name: name.trim() } : collection);
+}
+
+/**
+ * Deletes a collection. Its bookmarks are kept as unsorted.
+ */
+export function removeCollection(
+  collections: BookmarkCollection[],
+  bookmarks: Bookmark[],
+  id: string
+): { collections: BookmarkCollection[]; bookmarks: Bookmark[] } {
+  return {
+    collections: collections.filter(collection => collection.id !== id),
+    bookmarks: bookmarks.map(bookmark => bookmark.collectionId === id ? { ...bookmark, collectionId: null } : bookmark),
+  };
+}
+
+/**
+ * Adds imported collections and bookmarks that are not already present. Local ones win on a clash,
+ * and bookmarks whose collection is unknown become unsorted.
+ */
+export function mergeBookmarks(
+  collections: BookmarkCollection[],
+  bookmarks: Bookmark[],
+  imported: { collections: BookmarkCollection[]; bookmarks: Bookmark[] }
+): { collections: BookmarkCollection[]; bookmarks: Bookmark[] } {
+  const mergedCollections = [...collections, ...imported.collections.filter(collection => !collections.some(other => other.id === collection.id))];
+  const known = new Set(mergedCollections.map(collection => collection.id));
+  const added = imported.bookmarks
+    .filter(bookmark => !bookmarks.some(other => other.id === bookmark.id))
+    .map(bookmark => bookmark.collectionId && !known.has(bookmark.collectionId) ? { ...bookmark, collectionId: null } : bookmark);
+  return { collections: mergedCollections, bookmarks: [...bookmarks, ...added] };
+}
+
+export async function saveBookmarkContent(saved: SavedContent): Promise<boolean> {
+  try {
+    await withStore('bookmarks', 'readwrite', store => { store.put(saved); });
+    return true;
+  } catch (e) {
+    console.warn('Could not save the bookmarked content.', e);
+    return false;
+  }
+}
+
+export async function loadBookmarkContent(id: string): Promise<SavedContent | null> {
+  try {
+    return (await withStore('bookmarks', 'readonly', store => requestToPromise(store.get(id)))) ?? null;
+  } catch (e) {
+    console.warn('Could not load the bookmarked content.', e);
+    return null;
+  }
+}
+
+export async function listBookmarkContents(ids: string[]): Promise<SavedContent[]> {
+  const contents = await Promise.all(ids.map(loadBookmarkContent));
+  return contents.filter((saved): saved is SavedContent => !!saved);
+}
+
+export async function deleteBookmarkContent(id: string): Promise<void> {
+  try {
+    await withStore('bookmarks', 'readwrite', store => { store.delete(id); });
+  } catch (e) {
+    console.warn('Could not delete the bookmarked content.', e);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Something the command palette can do. Commands that do not apply to the current view are left out
+ * of the list rather than disabled.
+ */
+export interface Command {
+  id: string;
+  group: string; // Shown before the label and matched with it, e.g. "Language" or "Tab"
+  label: string;
+  shortcut?: string; // Key hint shown beside the label
+  run: () => void;
+}
+
+// Most commands listed at once; typing narrows the rest down.
+const MAX_LISTED = 50;
+
+/**
+ * The commands matching `query`: every word of it must appear in the group or label.
+ * Labels starting with the query come first; otherwise the given order is kept.
+ */
+export function matchCommands(commands: Command[], query: string): Command[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands.slice(0, MAX_LISTED);
+
+  const text = (command: Command) => `${command.group} ${command.label}`.toLowerCase();
+  const matches = commands.filter(command => words.every(word => text(command).includes(word)));
+  const phrase = words.join(' ');
+  const startsWith = (command: Command) => command.label.toLowerCase().startsWith(phrase);
+  return [...matches.filter(startsWith), ...matches.filter(command => !startsWith(command))].slice(0, MAX_LISTED);
+}
+
+/**
+ * Ctrl+K, or Cmd+K on a Mac.
+ */
+export function isPaletteShortcut(e: KeyboardEvent): boolean {
+  return (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === 'k';
+}
+
+/**
+ * Whether a key pressed in `target` is typing, which single-key shortcuts must leave alone.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
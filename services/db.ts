@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'infinite-wiki';
+
+// One entry per schema version; each upgrade runs once, in order, when a browser first opens that version.
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+  // Version 1: generated articles, keyed by cache key, evicted least-recently-used first.
+  db => {
+    const articles = db.createObjectStore('articles', { keyPath: 'key' });
+    articles.createIndex('lastAccessedAt', 'lastAccessedAt');
+  },
+  // Version 2: uploaded documents of open and recently closed tabs, kept out of the session snapshot.
+  db => {
+    db.createObjectStore('documents', { keyPath: 'id' });
+  },
+  // Version 3: generated diagrams, keyed by prompt hash and shared by every article that uses them.
+  db => {
+    db.createObjectStore('diagrams', { keyPath: 'hash' });
+  },
+  // Version 4: content saved with bookmarks, keyed by bookmark id and never evicted.
+  db => {
+    db.createObjectStore('bookmarks', { keyPath: 'id' });
+  },
+];
+
+const DB_VERSION = UPGRADES.length;
+
+export type StoreName = 'articles' | 'documents' | 'diagrams' | 'bookmarks';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and if needed upgrades) the app's database. The connection is shared for the page's lifetime.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          UPGRADES[version](request.result);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer version of the app opened in another tab needs to upgrade.
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // The open goes ahead once the other tab closes its connection, so keep waiting.
+      request.onblocked = () => console.warn('Waiting for another tab with an older version of the app to close the database.');
+    });
+    // Let a later call try again after a failure.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `fn` in a transaction on one store and resolves with its result once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted.'));
+  });
+  const result = await fn(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { requestToPromise, withStore } from './db';
+import { GenerationError } from './generationErrors';
+import { hashString } from './hash';
+import { promptSignature } from './promptRegistry';
+
+export interface CachedDiagram {
+  hash: string;
+  prompt: string;
+  data: string; // base64
+  sizeBytes: number;
+  createdAt: number;
+}
+
+/**
+ * The descriptions of every `[DIAGRAM: ...]` tag in an article, in order of appearance.
+ */
+export function extractDiagramPrompts(content: string): string[] {
+  return [...content.matchAll(/\[DIAGRAM:\s*(.*?)\]/g)].map(match => match[1]);
+}
+
+/**
+ * Diagrams are shared by prompt, so two articles (or tabs) asking for the same picture get one image.
+ * The template signature is included so that a new diagram prompt produces new images.
+ */
+export function diagramHash(prompt: string): string {
+  return hashString(`${promptSignature('diagram')}\n${prompt}`);
+}
+
+// Generations in progress, so a second tab waiting for the same diagram does not start another one.
+// Each carries the signal of the caller that started it, which can abort it for everyone.
+const inFlight = new Map<string, { promise: Promise<string>; signal?: AbortSignal }>();
+
+const isAborted = (e: unknown) => e instanceof GenerationError && e.kind === 'aborted';
+
+async function readDiagram(hash: string): Promise<string | null> {
+  try {
+    const entry: CachedDiagram | undefined = await withStore('diagrams', 'readonly', store => requestToPromise(store.get(hash)));
+    return entry?.data ?? null;
+  } catch (e) {
+    console.warn('Could not read from the diagram cache.', e);
+    return null;
+  }
+}
+
+async function writeDiagram(hash: string, prompt: string, data: string): Promise<void> {
+  const entry: CachedDiagram = { hash, prompt, data, sizeBytes: data.length, createdAt: Date.now() };
+  try {
+    await withStore('diagrams', 'readwrite', store => { store.put(entry); });
+  } catch (e) {
+    console.warn('Could not write to the diagram cache.', e);
+  }
+}
+
+/**
+ * Returns the stored diagram for a prompt, or runs `generate` (which should honour `signal`) and stores
+ * its result. Concurrent calls for the same prompt share one generation; a caller whose shared generation
+ * is aborted by the caller that started it, while its own signal is live, starts its own.
+ */
+export function loadOrGenerateDiagram(prompt: string, generate: () => Promise<string>, signal?: AbortSignal): Promise<string> {
+  const hash = diagramHash(prompt);
+  const pending = inFlight.get(hash);
+  if (pending && !pending.signal?.aborted) {
+    return pending.promise.catch(e => {
+      if (isAborted(e) && !signal?.aborted) return loadOrGenerateDiagram(prompt, generate, signal);
+      throw e;
+    });
+  }
+
+  const forget = () => {
+    if (inFlight.get(hash)?.promise === promise) inFlight.delete(hash);
+  };
+  const promise = (async () => {
+    const stored = await readDiagram(hash);
+    if (stored) return stored;
+    const data = await generate();
+    await writeDiagram(hash, prompt, data);
+    return data;
+  })().finally(forget);
+
+  inFlight.set(hash, { promise, signal });
+  // An aborted generation is not joined, even before it has settled.
+  signal?.addEventListener('abort', forget, { once: true });
+  return promise;
+}
+
+export function listCachedDiagrams(): Promise<CachedDiagram[]> {
+  return withStore('diagrams', 'readonly', store => requestToPromise(store.getAll()));
+}
+
+export function deleteCachedDiagrams(hashes: string[]): Promise<void> {
+  return withStore('diagrams', 'readwrite', store => {
+    for (const hash of hashes) store.delete(hash);
+  });
+}
+
+/**
+ * Adds diagrams from an imported bundle. Diagrams are keyed by prompt, so existing ones are kept as they are.
+ * Resolves with the number added.
+ */
+export async function importCachedDiagrams(diagrams: CachedDiagram[]): Promise<number> {
+  return withStore('diagrams', 'readwrite', async store => {
+    let added = 0;
+    for (const diagram of diagrams) {
+      const existing = await requestToPromise(store.getKey(diagram.hash));
+      if (existing === undefined) {
+        store.put({ ...diagram, sizeBytes: diagram.data.length });
+        added++;
+      }
+    }
+    return added;
+  });
+}
+
+export function clearDiagramCache(): Promise<void> {
+  return withStore('diagrams', 'readwrite', store => { store.clear(); });
+}
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * One step of exploration. `from` is null when a tab starts on a topic.
+ */
+export interface TopicTransition {
+  from: string | null;
+  to: string;
+  tabId: string;
+  at: number;
+}
+
+export interface GraphNode {
+  id: string; // Lowercase topic
+  label: string; // Topic as most recently typed or clicked
+  visits: number;
+}
+
+export interface GraphEdge {
+  source: string; // Node id
+  target: string; // Node id
+  count: number;
+}
+
+export interface ExplorationGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// Oldest transitions are dropped beyond this, which keeps localStorage and the layout small.
+const MAX_TRANSITIONS = 1000;
+
+const GRAPH_STORAGE_KEY = 'infinite-wiki:exploration';
+
+// Checks one stored transition; entries from older versions or damaged storage are left out.
+const isTransition = (value: unknown): value is TopicTransition => {
+  if (!value || typeof value !== 'object') return false;
+  const { from, to, tabId, at } = value as Record<string, unknown>;
+  return (from === null || typeof from === 'string')
+    && typeof to === 'string'
+    && typeof tabId === 'string'
+    && typeof at === 'number';
+};
+
+export function loadTransitions(): TopicTransition[] {
+  try {
+    const raw = localStorage.getItem(GRAPH_STORAGE_KEY);
+    if (raw) {
+      const stored: unknown = JSON.parse(raw);
+      return Array.isArray(stored) ? stored.filter(isTransition).slice(-MAX_TRANSITIONS) : [];
+    }
+  } catch (e) {
+    console.warn('Could not read the exploration graph.', e);
+  }
+  return [];
+}
+
+export function saveTransitions(transitions: TopicTransition[]): void {
+  try {
+    localStorage.setItem(GRAPH_STORAGE_KEY, JSON.stringify(transitions));
+  } catch (e) {
+    console.warn('Could not save the exploration graph.', e);
+  }
+}
+
+export function addTransition(transitions: TopicTransition[], transition: TopicTransition): TopicTransition[] {
+  return [...transitions, transition].slice(-MAX_TRANSITIONS);
+}
+
+/**
+ * Collapses transitions into a graph of topics, optionally only those made in one tab.
+ * Repeated steps between the same two topics become one edge with a count.
+ */
+export function buildExplorationGraph(transitions: TopicTransition[], tabId: string | null = null): ExplorationGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const visit = (topic: string) => {
+    const id = topic.toLowerCase();
+    const node = nodes.get(id);
+    if (node) {
+      node.label = topic;
+      node.visits++;
+    } else {
+      nodes.set(id, { id, label: topic, visits: 1 });
+    }
+    return id;
+  };
+
+  for (const transition of transitions) {
+    if (tabId !== null && transition.tabId !== tabId) continue;
+    const target = visit(transition.to);
+    if (transition.from === null) continue;
+    const source = transition.from.toLowerCase();
+    if (!nodes.has(source)) nodes.set(source, { id: source, label: transition.from, visits: 0 });
+    if (source === target) continue;
+
+    const key = `${source}\n${target}`;
+    const edge = edges.get(key);
+    if (edge) edge.count++;
+    else edges.set(key, { source, target, count: 1 });
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+/**
+ * A force-directed layout inside a width × height box. Deterministic, so the graph does not jump
+ * around between renders: nodes start on a circle in insertion order.
+ */
+export function layoutExplorationGraph(graph: ExplorationGraph, width: number, height: number): Map<string, NodePosition> {
+  const count = graph.nodes.length;
+  const positions = new Map<string, NodePosition>();
+  graph.nodes.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(count, 1);
+    positions.set(node.id, {
+      x: width / 2 + (width / 3) * Math.cos(angle),
+      y: height / 2 + (height / 3) * Math.sin(angle),
+    });
+  });
+  if (count < 2) {
+    if (count === 1) positions.set(graph.nodes[0].id, { x: width / 2, y: height / 2 });
+    return positions;
+  }
+
+  // Fruchterman-Reingold with a linearly cooling step.
+  const ideal = Math.sqrt((width * height) / count) * 0.75;
+  const iterations = 150;
+  const margin = 40;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map(graph.nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = positions.get(graph.nodes[i].id)!;
+        const b = positions.get(graph.nodes[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.hypot(dx, dy);
+        const force = (ideal * ideal) / distance;
+        const da = displacement.get(graph.nodes[i].id)!;
+        const db = displacement.get(graph.nodes[j].id)!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    for (const edge of graph.edges) {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = (distance * distance) / ideal;
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    }
+
+    const step = (width / 10) * (1 - iteration / iterations);
+    for (const node of graph.nodes) {
+      const position = positions.get(node.id)!;
+      const move = displacement.get(node.id)!;
+      const length = Math.hypot(move.x, move.y) || 1;
+      position.x = Math.min(width - margin, Math.max(margin, position.x + (move.x / length) * Math.min(length, step)));
+      position.y = Math.min(height - margin, Math.max(margin, position.y + (move.y / length) * Math.min(length, step)));
+    }
+  }
+  return positions;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * The graph as GraphML, for tools such as Gephi or yEd.
+ */
+export function toGraphML(graph: ExplorationGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="visits" for="node" attr.name="visits" attr.type="int"/>',
+    '  <key id="count" for="edge" attr.name="count" attr.type="int"/>',
+    '  <graph id="exploration" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="label">${escapeXml(node.label)}</data>`,
+      `      <data key="visits">${node.visits}</data>`,
+      '    </node>'
+    );
+  }
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+      `      <data key="count">${edge.count}</data>`,
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
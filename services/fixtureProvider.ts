@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { hashString } from './hash';
+import { sleep } from './retry';
+import type { ModelProvider, ProviderChunk, TextGenerationRequest } from './modelProvider';
+import type { TokenUsage } from './usage';
+
+export type FixtureMode = 'record' | 'replay';
+
+const FIXTURE_MODES: FixtureMode[] = ['record', 'replay'];
+
+declare global {
+  interface Window {
+    // Set in record mode, for saving or discarding the recording from the console.
+    infiniteWikiFixtures?: { download: () => void; clear: () => void };
+  }
+}
+
+/**
+ * Reads FIXTURE_MODE, rejecting anything but the two modes.
+ */
+export function parseFixtureMode(value: string): FixtureMode {
+  if (!FIXTURE_MODES.includes(value as FixtureMode)) {
+    throw new Error(`Unknown fixture mode "${value}". Set FIXTURE_MODE to "record" or "replay".`);
+  }
+  return value as FixtureMode;
+}
+
+interface RecordedChunk extends ProviderChunk {
+  // Time since the previous chunk (or since the request started, for the first chunk).
+  delayMs: number;
+}
+
+type FixtureEntry =
+  | { kind: 'stream'; chunks: RecordedChunk[] }
+  | { kind: 'text'; text: string; sources?: any[]; usage?: TokenUsage; delayMs: number }
+  | { kind: 'image'; data: string; usage?: TokenUsage; delayMs: number };
+
+export interface FixtureFile {
+  version: 1;
+  entries: Record<string, FixtureEntry>;
+}
+
+interface FixtureProviderOptions {
+  mode: FixtureMode;
+  // The provider whose responses are recorded. Required in record mode.
+  inner?: ModelProvider;
+  // Where replay mode loads recordings from. Falls back to the last recording in localStorage.
+  url?: string;
+  // Replay speed multiplier; 2 plays back twice as fast as recorded, 0 disables delays.
+  speed?: number;
+}
+
+const STORAGE_KEY = 'infinite-wiki:fixtures';
+
+// Keyed by prompt only, so recordings survive model changes.
+const fixtureKey = (kind: FixtureEntry['kind'], request: Pick<TextGenerationRequest, 'contents' | 'useSearch' | 'systemInstruction'>) =>
+  `${kind}:${hashString(JSON.stringify([request.contents, !!request.useSearch, request.systemInstruction ?? null]))}`;
+
+const readStoredFixtures = (): FixtureFile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn('Could not read stored fixtures.', e);
+  }
+  return { version: 1, entries: {} };
+};
+
+const loadFixtures = async (url: string | undefined): Promise<FixtureFile> => {
+  if (url) {
+    try {
+      const response = await fetch(url);
+      if (response.ok) return await response.json();
+      console.warn(`Fixture file ${url} returned status ${response.status}. Using stored fixtures instead.`);
+    } catch (e) {
+      console.warn(`Could not load fixture file ${url}. Using stored fixtures instead.`, e);
+    }
+  }
+  return readStoredFixtures();
+};
+
+/**
+ * Record/replay provider for offline development and repeatable UI runs.
+ *
+ * In record mode every call is forwarded to the inner provider and its output, with chunk timing,
+ * is saved to localStorage. Call `window.infiniteWikiFixtures.download()` to save the recording as
+ * a JSON file, then serve it (e.g. from `public/fixtures/recording.json`) for replay mode.
+ */
+export function createFixtureProvider(options: FixtureProviderOptions): ModelProvider {
+  const mode = parseFixtureMode(options.mode);
+  const { inner } = options;
+  const speed = options.speed ?? 1;
+
+  if (mode === 'record' && !inner) {
+    throw new Error('The fixture provider needs an inner provider to record from.');
+  }
+  // Only called in record mode, where `inner` was checked above.
+  const recordFrom = (): ModelProvider => inner as ModelProvider;
+
+  let fixtures: FixtureFile = { version: 1, entries: {} };
+  const ready = (mode === 'replay' ? loadFixtures(options.url) : Promise.resolve(readStoredFixtures()))
+    .then(loaded => { fixtures = loaded; });
+
+  const save = (key: string, entry: FixtureEntry) => {
+    fixtures.entries[key] = entry;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(fixtures));
+    } catch (e) {
+      // Diagrams fill the localStorage quota quickly; the in-memory recording can still be downloaded.
+      console.warn('Could not persist fixtures to localStorage. Download them before reloading.', e);
+    }
+  };
+
+  const lookup = async <K extends FixtureEntry['kind']>(key: string, kind: K) => {
+    await ready;
+    const entry = fixtures.entries[key];
+    if (!entry || entry.kind !== kind) {
+      throw new Error('No fixture recorded for this prompt. Record one with FIXTURE_MODE=record.');
+    }
+    return entry as Extract<FixtureEntry, { kind: K }>;
+  };
+
+  const wait = (delayMs: number, signal?: AbortSignal) => speed > 0 ? sleep(delayMs / speed, signal) : Promise.resolve();
+
+  if (mode === 'record' && typeof window !== 'undefined') {
+    window.infiniteWikiFixtures = {
+      download: () => {
+        const blob = new Blob([JSON.stringify(fixtures, null, 2)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'recording.json';
+        link.click();
+        URL.revokeObjectURL(link.href);
+      },
+      clear: () => {
+        fixtures = { version: 1, entries: {} };
+        localStorage.removeItem(STORAGE_KEY);
+      },
+    };
+    console.info('Recording fixtures. Run window.infiniteWikiFixtures.download() to save them.');
+  }
+
+  return {
+    id: 'fixture',
+    label: mode === 'record' ? `${recordFrom().label} (recording)` : 'Fixture replay',
+    models: inner?.models ?? { text: 'fixture', search: 'fixture', image: 'fixture' },
+
+    async *streamText(request) {
+      const key = fixtureKey('stream', request);
+
+      if (mode === 'replay') {
+        const entry = await lookup(key, 'stream');
+        for (const { delayMs, ...chunk } of entry.chunks) {
+          await wait(delayMs, request.signal);
+          yield chunk;
+        }
+        return;
+      }
+
+      await ready;
+      const chunks: RecordedChunk[] = [];
+      let last = performance.now();
+      for await (const chunk of recordFrom().streamText(request)) {
+        const now = performance.now();
+        chunks.push({ ...chunk, delayMs: Math.round(now - last) });
+        last = now;
+        yield chunk;
+      }
+      save(key, { kind: 'stream', chunks });
+    },
+
+    async generateText(request) {
+      const key = fixtureKey('text', request);
+
+      if (mode === 'replay') {
+        const entry = await lookup(key, 'text');
+        await wait(entry.delayMs, request.signal);
+        return { text: entry.text, sources: entry.sources, usage: entry.usage };
+      }
+
+      await ready;
+      const start = performance.now();
+      const result = await recordFrom().generateText(request);
+      save(key, { kind: 'text', text: result.text, sources: result.sources, usage: result.usage, delayMs: Math.round(performance.now() - start) });
+      return result;
+    },
+
+    async generateImage(prompt, model, signal) {
+      const key = fixtureKey('image', { contents: prompt });
+
+      if (mode === 'replay') {
+        const entry = await lookup(key, 'image');
+        await wait(entry.delayMs, signal);
+        return { data: entry.data, usage: entry.usage };
+      }
+
+      await ready;
+      const start = performance.now();
+      const result = await recordFrom().generateImage(prompt, model, signal);
+      save(key, { kind: 'image', data: result.data, usage: result.usage, delayMs: Math.round(performance.now() - start) });
+      return result;
+    },
+  };
+}
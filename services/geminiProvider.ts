@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {GoogleGenAI} from '@google/genai';
+import { GenerationError } from './generationErrors';
+import type { ModelProvider, TextGenerationRequest } from './modelProvider';
+import type { TokenUsage } from './usage';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Throws if Gemini refused the prompt or cut the answer off for safety reasons.
+ */
+const assertNotBlocked = (response: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] }) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety-blocked', `The prompt was blocked (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety-blocked', `The response was stopped by safety filters (${finishReason}).`);
+  }
+};
+
+const toTokenUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): TokenUsage | undefined =>
+  metadata && {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    // Thinking tokens are billed as output.
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+
+/**
+ * Adapter for the hosted Gemini API.
+ */
+export function createGeminiProvider(apiKey: string | undefined = process.env.API_KEY): ModelProvider {
+  // This check is for development-time feedback.
+  if (!apiKey) {
+    console.error(
+      'API_KEY environment variable is not set. The application will not be able to connect to the Gemini API.',
+    );
+  }
+
+  const ai = new GoogleGenAI({apiKey});
+
+  const buildConfig = (request: TextGenerationRequest) => ({
+    ...(request.useSearch ? { tools: [{googleSearch: {}}] } : {}),
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    maxOutputTokens: request.maxOutputTokens,
+    ...(request.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+    abortSignal: request.signal,
+  });
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    models: {
+      text: 'gemini-2.5-flash',
+      search: 'gemini-2.5-flash',
+      image: 'gemini-2.5-flash-image',
+    },
+
+    async *streamText(request) {
+      const result = await ai.models.generateContentStream({
+        model: request.model,
+        contents: request.contents,
+        config: buildConfig(request),
+      });
+
+      for await (const chunk of result) {
+        assertNotBlocked(chunk);
+        const text = chunk.text;
+        const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        const usage = toTokenUsage(chunk.usageMetadata);
+        if (text || (sources && sources.length > 0) || usage) {
+          yield { text: text ?? '', sources: sources, usage };
+        }
+      }
+    },
+
+    async generateText(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.contents,
+        config: buildConfig(request),
+      });
+      assertNotBlocked(response);
+
+      return {
+        text: response.text ?? '',
+        sources: response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [],
+        usage: toTokenUsage(response.usageMetadata),
+      };
+    },
+
+    async generateImage(prompt, model, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts: [{ text: prompt }] },
+        config: { abortSignal: signal },
+      });
+      assertNotBlocked(response);
+
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          return { data: part.inlineData.data, usage: toTokenUsage(response.usageMetadata) };
+        }
+      }
+      throw new GenerationError('empty-response', "No image data returned.");
+    },
+  };
+}
@@ -3,19 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import {GoogleGenAI} from '@google/genai';
-
-// This check is for development-time feedback.
-if (!process.env.API_KEY) {
-  console.error(
-    'API_KEY environment variable is not set. The application will not be able to connect to the Gemini API.',
-  );
-}
-
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-const textModelName = 'gemini-2.5-flash';
-const searchModelName = 'gemini-2.5-flash';
-const imageModelName = 'gemini-2.5-flash-image';
+import { classifyError, GenerationError, type GenerationErrorKind } from './generationErrors';
+import { getModelProvider, type ModelProvider, type PromptContents, type ProviderChunk, type TextGenerationRequest } from './modelProvider';
+import { retryAsync, type RetryOptions, retryStream } from './retry';
+import { renderPrompt } from './promptRegistry';
+import { DEFAULT_READING_DEPTH, type ReadingDepth } from './readingDepth';
+import { parseSenseResponse, type SenseContext, type SenseResult } from './senses';
+import { getModeSettings, resolveModel, SETTINGS_MODE_FOR_USAGE } from './generationSettings';
+import { createUsageRecord, estimateTokens, type TokenUsage, type UsageMode, type UsageRecord } from './usage';
 
 export interface AsciiArtData {
   art: string;
@@ -24,47 +19,174 @@ export interface AsciiArtData {
 
 export type StreamEvent = 
   | { type: 'chunk'; text: string; sources?: any[] }
-  | { type: 'error'; message: string };
+  | { type: 'error'; message: string; kind: GenerationErrorKind; retryable: boolean };
+
+export interface GenerationOptions {
+  // Aborting cancels the in-flight network request as well as any pending retries.
+  signal?: AbortSignal;
+  // Called once per completed model call with its token usage and estimated cost.
+  onUsage?: (record: UsageRecord) => void;
+}
+
+const retryOptions: RetryOptions = {
+  onRetry: (error, attempt, delayMs) =>
+    console.warn(`Retrying after ${error.kind} error (attempt ${attempt}, waiting ${Math.round(delayMs)}ms).`),
+};
+
+const promptText = (contents: PromptContents) =>
+  typeof contents === 'string'
+    ? contents
+    : contents.parts.map(part => 'text' in part ? part.text : '').join('\n');
+
+/**
+ * Reports usage for a call, estimating it from text length when the provider gave none.
+ */
+const reportUsage = (
+  options: GenerationOptions,
+  mode: UsageMode,
+  model: string,
+  usage: TokenUsage | undefined,
+  contents: PromptContents,
+  output: string
+) => {
+  if (!options.onUsage) return;
+  const estimated = !usage;
+  options.onUsage(createUsageRecord(mode, model, usage ?? {
+    inputTokens: estimateTokens(promptText(contents)),
+    outputTokens: estimateTokens(output),
+  }, estimated));
+};
 
 /**
- * Streams a definition for a given topic from the Gemini API.
+ * Streams from a provider, retrying transient failures and treating a stream without text as an error.
+ * Usage is reported for every attempt that got an answer under way, including ones that failed, were
+ * aborted or were abandoned by the caller; those are estimated from the output they had produced.
+ */
+async function* streamFromProvider(
+  provider: ModelProvider,
+  request: Omit<TextGenerationRequest, 'signal'>,
+  mode: UsageMode,
+  options: GenerationOptions
+): AsyncGenerator<ProviderChunk, void, undefined> {
+  yield* retryStream(async function* () {
+    let hasText = false;
+    let hasStarted = false;
+    let usage: TokenUsage | undefined;
+    let output = '';
+    try {
+      for await (const chunk of provider.streamText({ ...request, signal: options.signal })) {
+        hasStarted = true;
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.text) hasText = true;
+        output += chunk.text;
+        yield chunk;
+      }
+    } finally {
+      // Requests refused before any output (rate limits, bad keys) are not billed.
+      if (hasStarted) reportUsage(options, mode, request.model, usage, request.contents, output);
+    }
+    if (!hasText) {
+      throw new GenerationError('empty-response', 'The model returned an empty response.');
+    }
+  }, { ...retryOptions, signal: options.signal });
+}
+
+/**
+ * Request fields taken from the user's settings for a mode. `requiresSearch` keeps grounding on for
+ * requests that cannot work without it, such as reading a URL.
+ */
+const settingsFields = (provider: ModelProvider, mode: UsageMode, requiresSearch: boolean = false) => {
+  const settingsMode = SETTINGS_MODE_FOR_USAGE[mode];
+  const settings = getModeSettings(settingsMode);
+  return {
+    model: resolveModel(settingsMode, provider.models),
+    useSearch: requiresSearch || settings.useSearch,
+    temperature: settings.temperature ?? undefined,
+    maxOutputTokens: settings.maxOutputTokens ?? undefined,
+    thinkingBudget: settings.thinkingBudget ?? undefined,
+  };
+};
+
+// Cancellation is expected whenever the user navigates away, so it is not worth a console error.
+const logUnlessAborted = (message: string, error: GenerationError) => {
+  if (error.kind !== 'aborted') {
+    console.error(message, error);
+  }
+};
+
+const errorEvent = (context: string, error: GenerationError): StreamEvent => ({
+  type: 'error',
+  message: `${context} ${error.message}`,
+  kind: error.kind,
+  retryable: error.retryable,
+});
+
+/**
+ * Streams a definition for a given topic from the active model provider.
+ * `sense` narrows a term with several meanings to the one the reader followed.
  */
 export async function* streamWikiDefinition(
   topic: string,
-  language: string = 'English'
+  language: string = 'English',
+  depth: ReadingDepth = DEFAULT_READING_DEPTH,
+  sense: string | null = null,
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
-  const prompt = `Using a web search, provide a concise, single-paragraph encyclopedia-style definition for the term: "${topic}". 
-  
-  Language Requirement: You MUST write your response in ${language}.
-  
-  Your answer must be based on the most current information available. Be informative and neutral. Do not use markdown, titles, or any special formatting. Respond with only the text of the definition itself.
-  
-  VISUALS: If this concept is abstract or complex, you MAY insert one [DIAGRAM: description] tag at the end to generate an illustration.`;
-  
-  const config = { 
-    tools: [{googleSearch: {}}],
-  };
+  try {
+    const provider = getModelProvider();
+    const fields = settingsFields(provider, 'wiki');
+    const prompt = renderPrompt('wiki', { topic, language, depth, sense, useSearch: fields.useSearch }).text;
+    const result = streamFromProvider(provider, {
+      ...fields,
+      contents: prompt,
+    }, 'wiki', options);
+
+    for await (const chunk of result) {
+      const text = chunk.text;
+      const sources = chunk.sources;
+      if (text || (sources && sources.length > 0)) {
+        yield { type: 'chunk', text: text ?? '', sources: sources };
+      }
+    }
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming from model provider:', error);
+    yield errorEvent(`Could not generate content for "${topic}".`, error);
+    throw error;
+  }
+}
 
+/**
+ * Streams a longer reference article for a topic in the tagged format parsed by `parseStructuredArticle`.
+ */
+export async function* streamStructuredArticle(
+  topic: string,
+  language: string = 'English',
+  depth: ReadingDepth = DEFAULT_READING_DEPTH,
+  sense: string | null = null,
+  options: GenerationOptions = {}
+): AsyncGenerator<StreamEvent, void, undefined> {
   try {
-    const result = await ai.models.generateContentStream({
-      model: searchModelName,
+    const provider = getModelProvider();
+    const fields = settingsFields(provider, 'article');
+    const prompt = renderPrompt('article', { topic, language, depth, sense, useSearch: fields.useSearch }).text;
+    const result = streamFromProvider(provider, {
+      ...fields,
       contents: prompt,
-      config: config,
-    });
+    }, 'article', options);
 
     for await (const chunk of result) {
       const text = chunk.text;
-      const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+      const sources = chunk.sources;
       if (text || (sources && sources.length > 0)) {
         yield { type: 'chunk', text: text ?? '', sources: sources };
       }
     }
-  } catch (error) {
-    console.error('Error streaming from Gemini:', error);
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    yield { type: 'error', message: `Could not generate content for "${topic}". ${errorMessage}`};
-    throw new Error(errorMessage);
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming structured article:', error);
+    yield errorEvent(`Could not generate an article for "${topic}".`, error);
+    throw error;
   }
 }
 
@@ -76,32 +198,23 @@ export async function* streamInDocumentQuery(
   query: string,
   documentContext: string | null,
   fileData?: { mimeType: string; data: string },
-  language: string = 'English'
+  language: string = 'English',
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
   let contents: any;
+  let systemInstruction: string | undefined;
 
   if (documentContext) {
     // Text-based query (extracted text)
-    contents = `Based *only* on the content of the following document, answer the user's question: "${query}". 
-    
-    Language Requirement: You MUST answer in ${language}.
-    
-    Provide a comprehensive answer, quoting from the text if relevant. If the answer is not available in the document, state that the information is not available in the provided text. Do not use any outside knowledge.
-
-DOCUMENT:
----
-${documentContext}
----
-
-ANSWER FOR "${query}" (in ${language}):`;
+    const prompt = renderPrompt('document-query', { query, document: documentContext, language });
+    contents = prompt.text;
+    systemInstruction = prompt.system;
   } else if (fileData) {
     // Multimodal query (scanned PDF, image, binary file)
     const isAnalysisRequest = query === 'Analyze Document' || query === 'Read Document';
-    const textPrompt = isAnalysisRequest
-      ? `Please provide a comprehensive transcription and summary of the text and visual content in this document. Organize it clearly. If it's a scanned text document, simply output the text found within it.
-      
-      Language Requirement: The summary/transcription MUST be in ${language}.`
-      : `Answer the user's question: "${query}" based on the provided document. Respond in ${language}.`;
+    const prompt = renderPrompt('file-query', { query: isAnalysisRequest ? null : query, language });
+    const textPrompt = prompt.text;
+    systemInstruction = prompt.system;
 
     contents = {
       parts: [
@@ -121,22 +234,23 @@ ANSWER FOR "${query}" (in ${language}):`;
   }
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: textModelName,
+    const provider = getModelProvider();
+    const result = streamFromProvider(provider, {
+      ...settingsFields(provider, 'document-query'),
       contents: contents,
-    });
+      systemInstruction,
+    }, 'document-query', options);
 
     for await (const chunk of result) {
       if (chunk.text) {
         yield { type: 'chunk', text: chunk.text };
       }
     }
-  } catch (error) {
-    console.error('Error streaming from Gemini:', error);
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    yield { type: 'error', message: `Could not answer question "${query}". ${errorMessage}`};
-    throw new Error(errorMessage);
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming from model provider:', error);
+    yield errorEvent(`Could not answer question "${query}".`, error);
+    throw error;
   }
 }
 
@@ -145,27 +259,29 @@ ANSWER FOR "${query}" (in ${language}):`;
  */
 export async function* streamTranslation(
   textToTranslate: string,
-  targetLanguage: string
+  targetLanguage: string,
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
-  const prompt = `Translate the following text into ${targetLanguage}. Maintain the original tone and formatting as much as possible. Do not add conversational filler.
-  
-  TEXT TO TRANSLATE:
-  ${textToTranslate}`;
+  const prompt = renderPrompt('translation', { text: textToTranslate, language: targetLanguage });
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: textModelName,
-      contents: prompt,
-    });
+    const provider = getModelProvider();
+    const result = streamFromProvider(provider, {
+      ...settingsFields(provider, 'translation'),
+      contents: prompt.text,
+      systemInstruction: prompt.system,
+    }, 'translation', options);
 
     for await (const chunk of result) {
       if (chunk.text) {
         yield { type: 'chunk', text: chunk.text };
       }
     }
-  } catch (error) {
-    console.error('Error streaming translation:', error);
-    yield { type: 'error', message: `Translation failed. ${error instanceof Error ? error.message : ''}`};
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming translation:', error);
+    yield errorEvent('Translation failed.', error);
+    throw error;
   }
 }
 
@@ -176,13 +292,12 @@ export async function* streamImageAnalysis(
   query: string,
   base64Image: string,
   mimeType: string,
-  language: string = 'English'
+  language: string = 'English',
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
   // If query is the default placeholder, ask for a description/summary
   const isDefault = query === 'Image Analysis';
-  const textPrompt = isDefault 
-    ? `Analyze this image in detail. Describe the visual elements, the context, and any text present. Provide a comprehensive summary of what is shown. Respond in ${language}.`
-    : `${query}. Respond in ${language}.`;
+  const textPrompt = renderPrompt('image-analysis', { query: isDefault ? null : query, language }).text;
 
   const imagePart = {
     inlineData: {
@@ -193,22 +308,94 @@ export async function* streamImageAnalysis(
   const textPart = { text: textPrompt };
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: searchModelName,
+    const provider = getModelProvider();
+    const result = streamFromProvider(provider, {
+      ...settingsFields(provider, 'image-analysis'),
       contents: { parts: [imagePart, textPart] },
-    });
+    }, 'image-analysis', options);
 
     for await (const chunk of result) {
       if (chunk.text) {
         yield { type: 'chunk', text: chunk.text };
       }
     }
-  } catch (error) {
-    console.error('Error streaming image analysis:', error);
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    yield { type: 'error', message: `Could not analyze image. ${errorMessage}`};
-    throw new Error(errorMessage);
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming image analysis:', error);
+    yield errorEvent(`Could not analyze image.`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generates the one-sentence definition shown on a word's preview card. Kept cheap: no web search and no streaming.
+ */
+export async function generatePreview(
+  topic: string,
+  language: string = 'English',
+  options: GenerationOptions = {}
+): Promise<string> {
+  try {
+    const prompt = renderPrompt('preview', { topic, language }).text;
+
+    const provider = getModelProvider();
+    const fields = { ...settingsFields(provider, 'preview'), useSearch: false };
+    const response = await retryAsync(async () => {
+      const result = await provider.generateText({
+        ...fields,
+        contents: prompt,
+        signal: options.signal,
+      });
+      if (!result.text) {
+        throw new GenerationError('empty-response', 'The model returned an empty response.');
+      }
+      return result;
+    }, { ...retryOptions, signal: options.signal });
+    reportUsage(options, 'preview', fields.model, response.usage, prompt, response.text);
+
+    return response.text.trim();
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error generating preview:', error);
+    throw new GenerationError(error.kind, `Could not preview "${topic}". ${error.message}`, { cause: e });
+  }
+}
+
+/**
+ * Lists the common meanings of a term clicked in an article and picks the one its sentence uses.
+ * Runs without search, as it only has to tell meanings apart.
+ */
+export async function detectSenses(
+  topic: string,
+  context: SenseContext,
+  language: string = 'English',
+  options: GenerationOptions = {}
+): Promise<SenseResult> {
+  try {
+    const prompt = renderPrompt('sense', { topic, sentence: context.sentence, parentTopic: context.parentTopic, language }).text;
+
+    const provider = getModelProvider();
+    const fields = { ...settingsFields(provider, 'sense'), useSearch: false };
+    const response = await retryAsync(async () => {
+      const result = await provider.generateText({
+        ...fields,
+        contents: prompt,
+        signal: options.signal,
+      });
+      if (!result.text) {
+        throw new GenerationError('empty-response', 'The model returned an empty response.');
+      }
+      return result;
+    }, { ...retryOptions, signal: options.signal });
+    reportUsage(options, 'sense', fields.model, response.usage, prompt, response.text);
+
+    const senses = parseSenseResponse(response.text);
+    if (!senses) throw new GenerationError('unknown', 'The list of meanings could not be read.');
+    return senses;
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error detecting meanings:', error);
+    throw new GenerationError(error.kind, `Could not tell the meanings of "${topic}" apart. ${error.message}`, { cause: e });
   }
 }
 
@@ -217,28 +404,35 @@ interface AiSearchResult {
   sources: any[];
 }
 
-export async function performAiSearch(question: string, language: string = 'English'): Promise<AiSearchResult> {
+export async function performAiSearch(
+  question: string,
+  language: string = 'English',
+  options: GenerationOptions = {}
+): Promise<AiSearchResult> {
   try {
-    const prompt = `${question}
-    
-    Respond in ${language}.`;
+    const prompt = renderPrompt('web-search', { query: question, language }).text;
+
+    const provider = getModelProvider();
+    const fields = settingsFields(provider, 'web-search');
+    const response = await retryAsync(async () => {
+      const result = await provider.generateText({
+        ...fields,
+        contents: prompt,
+        signal: options.signal,
+      });
+      if (!result.text) {
+        throw new GenerationError('empty-response', 'The model returned an empty response.');
+      }
+      return result;
+    }, { ...retryOptions, signal: options.signal });
+    reportUsage(options, 'web-search', fields.model, response.usage, prompt, response.text);
 
-    const response = await ai.models.generateContent({
-      model: searchModelName,
-      contents: prompt,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
-    });
-
-    const content = response.text;
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
-    return { content: content ?? '', sources };
-
-  } catch (error) {
-    console.error('Error during AI search:', error);
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-    throw new Error(`Could not complete search for "${question}". ${errorMessage}`);
+    return { content: response.text, sources: response.sources ?? [] };
+
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error during AI search:', error);
+    throw new GenerationError(error.kind, `Could not complete search for "${question}". ${error.message}`, { cause: e });
   }
 }
 
@@ -247,45 +441,31 @@ export async function performAiSearch(question: string, language: string = 'Engl
  */
 export async function* streamYouTubeSummary(
   url: string,
-  language: string = 'English'
+  language: string = 'English',
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
-  const prompt = `You are an expert video analyst. The user provided this YouTube URL: ${url}.
-  
-  TASK:
-  1. Identify the video title and channel.
-  2. Provide a Comprehensive Summary of the video content. Don't just give a teaser; give the actual substance of what was said or shown.
-  3. List Key Takeaways or detailed bullet points of the main arguments/events.
-  4. If it's a tutorial, list the steps. If it's a news clip, list the facts.
-  
-  Language Requirement: Write the entire summary in ${language}.
-  
-  Format the output as a clean, structured article with clear headings (use simple capitalization/bolding, no markdown headers like ##).`;
-
-  const config = { 
-    tools: [{googleSearch: {}}],
-  };
+  const prompt = renderPrompt('youtube', { url, language }).text;
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: searchModelName,
+    const provider = getModelProvider();
+    const result = streamFromProvider(provider, {
+      ...settingsFields(provider, 'youtube', true),
       contents: prompt,
-      config: config,
-    });
+    }, 'youtube', options);
 
     for await (const chunk of result) {
       const text = chunk.text;
-      const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+      const sources = chunk.sources;
       
       if (text || (sources && sources.length > 0)) {
         yield { type: 'chunk', text: text ?? '', sources: sources };
       }
     }
-  } catch (error) {
-    console.error('Error streaming YouTube summary from Gemini:', error);
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    yield { type: 'error', message: `Could not generate summary for the video. ${errorMessage}`};
-    throw new Error(errorMessage);
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming YouTube summary:', error);
+    yield errorEvent(`Could not generate summary for the video.`, error);
+    throw error;
   }
 }
 
@@ -295,73 +475,54 @@ export async function* streamYouTubeSummary(
 export async function* streamWebResource(
   url: string,
   sectionIndex: number = 0,
-  language: string = 'English'
+  language: string = 'English',
+  options: GenerationOptions = {}
 ): AsyncGenerator<StreamEvent, void, undefined> {
-  // Enhanced prompt to handle reader URLs, pagination, and diagram requests.
-  const prompt = `You are a sophisticated web reader and researcher. The user wants to read the *content* located at or represented by this URL: ${url}.
-  
-  CURRENT SECTION: ${sectionIndex + 1} (This implies we might be reading a book chapter by chapter).
-
-  STRATEGY:
-  1. **Identify the Work**: If the URL is a specific "reader" page (e.g., ManyBooks, Kindle Cloud) or a deep link, use the page title or metadata to identifying the Book Title and Author. If the URL itself is blocked/dynamic, FIND THE TEXT of this book from public open sources (Project Gutenberg, etc.) corresponding to Section/Chapter ${sectionIndex + 1}.
-  2. **Extract Content**: Provide the **Full Text** of Chapter ${sectionIndex + 1} (or the next logical ~2000 word chunk if it's a single page). Do not summarize heavily; the user wants to READ.
-  3. **Visuals**: If the text describes a specific scene, diagram, chart, or scientific concept that should be visualized, output a tag on a new line: \`[DIAGRAM: detailed prompt for the image]\`. Do this sparingly, only for key visual concepts.
-  
-  Language Requirement: Translate the content into ${language} if it is not already.
-
-  OUTPUT FORMAT:
-  - If Section 1: **Header** (Title & Author).
-  - **The Content**: The actual text, formatted cleanly.
-  - **Diagram Tags**: Embedded where appropriate.
-
-  Do not output "I cannot access". Find the content.`;
-
-  const config = { 
-    tools: [{googleSearch: {}}],
-  };
+  const prompt = renderPrompt('web-reader', { url, sectionIndex, language });
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: searchModelName,
-      contents: prompt,
-      config: config,
-    });
+    const provider = getModelProvider();
+    const result = streamFromProvider(provider, {
+      ...settingsFields(provider, 'web-reader', true),
+      contents: prompt.text,
+      systemInstruction: prompt.system,
+    }, 'web-reader', options);
 
     for await (const chunk of result) {
       const text = chunk.text;
-      const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+      const sources = chunk.sources;
       
       if (text || (sources && sources.length > 0)) {
         yield { type: 'chunk', text: text ?? '', sources: sources };
       }
     }
-  } catch (error) {
-    console.error('Error streaming web resource from Gemini:', error);
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred.';
-    yield { type: 'error', message: `Could not retrieve content from the URL. ${errorMessage}`};
-    throw new Error(errorMessage);
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted('Error streaming web resource:', error);
+    yield errorEvent(`Could not retrieve content from the URL.`, error);
+    throw error;
   }
 }
 
 /**
  * Generates a diagram or image based on a prompt found in the text.
  */
-export async function generateInfoDiagram(prompt: string): Promise<string> {
+export async function generateInfoDiagram(prompt: string, options: GenerationOptions = {}): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
-      model: imageModelName,
-      contents: { parts: [{ text: `Create a clean, educational diagram or illustration for: ${prompt}` }] },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-    throw new Error("No image data returned.");
-  } catch (error) {
-    console.error("Error generating diagram:", error);
+    const provider = getModelProvider();
+    const imagePrompt = renderPrompt('diagram', { description: prompt }).text;
+    const model = resolveModel('diagram', provider.models);
+    const result = await retryAsync(() => provider.generateImage(
+      imagePrompt,
+      model,
+      options.signal,
+    ), { ...retryOptions, signal: options.signal });
+    // Images carry no text to estimate from; without a usage report only the prompt is counted.
+    reportUsage(options, 'diagram', model, result.usage, imagePrompt, '');
+    return result.data;
+  } catch (e) {
+    const error = classifyError(e, options.signal);
+    logUnlessAborted("Error generating diagram:", error);
     throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorKind =
+  | 'rate-limited'
+  | 'quota-exhausted'
+  | 'safety-blocked'
+  | 'network'
+  | 'invalid-key'
+  | 'empty-response'
+  | 'aborted'
+  | 'unknown';
+
+// Kinds that can succeed if the same request is simply tried again later.
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['rate-limited', 'network', 'empty-response'];
+
+/**
+ * Whether offering the reader a Retry makes sense: transient failures, and unclassified ones that may
+ * have been one-offs. A bad key, a safety block or a spent quota fails the same way again.
+ */
+export function canRetryManually(kind: GenerationErrorKind): boolean {
+  return TRANSIENT_KINDS.includes(kind) || kind === 'unknown';
+}
+
+export const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  'rate-limited': 'Too many requests',
+  'quota-exhausted': 'Quota exhausted',
+  'safety-blocked': 'Blocked by safety filters',
+  'network': 'Connection problem',
+  'invalid-key': 'Invalid API key',
+  'empty-response': 'Empty response',
+  'aborted': 'Cancelled',
+  'unknown': 'An Error Occurred',
+};
+
+/**
+ * An error from a model provider, classified so callers can decide whether to retry.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  // Delay the server asked for before retrying, when it told us.
+  readonly retryAfterMs?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = TRANSIENT_KINDS.includes(kind);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const parseRetryAfterMs = (message: string): number | undefined => {
+  // Gemini reports e.g. `"retryDelay": "23s"` or "Please retry in 23.5s."
+  const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/i) ?? message.match(/retry in ([\d.]+)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Classifies an HTTP failure from a provider.
+ */
+export function errorFromStatus(status: number, message: string): GenerationError {
+  const retryAfterMs = parseRetryAfterMs(message);
+
+  if (status === 429) {
+    // Both per-minute rate limits and daily quotas come back as 429; only the wording differs.
+    const isQuota = /per ?day|daily|billing|insufficient_quota|check your plan/i.test(message);
+    return new GenerationError(isQuota ? 'quota-exhausted' : 'rate-limited', message, { retryAfterMs });
+  }
+  if (status === 401 || status === 403 || /api[ _]?key/i.test(message)) {
+    return new GenerationError('invalid-key', message);
+  }
+  if (status === 408 || status >= 500) {
+    return new GenerationError('network', message, { retryAfterMs });
+  }
+  return new GenerationError('unknown', message);
+}
+
+/**
+ * Turns anything thrown by a provider into a GenerationError. `signal` is the request's own, so a
+ * failure caused by cancelling it counts as a cancellation whatever the provider's message says.
+ * Safety blocks are recognised by the providers from the response itself, not here.
+ */
+export function classifyError(error: unknown, signal?: AbortSignal): GenerationError {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+  if ((error as { name?: unknown } | null)?.name === 'AbortError' || signal?.aborted) {
+    return new GenerationError('aborted', 'The request was cancelled.', { cause: error });
+  }
+
+  const status = (error as { status?: unknown } | null)?.status;
+
+  if (typeof status === 'number') {
+    return errorFromStatus(status, message);
+  }
+  if (/RESOURCE_EXHAUSTED|\b429\b/.test(message)) {
+    return errorFromStatus(429, message);
+  }
+  if (/API_KEY_INVALID|API key not valid|API Key must be set|\b(401|403)\b/i.test(message)) {
+    return new GenerationError('invalid-key', message, { cause: error });
+  }
+  if (error instanceof TypeError || /failed to fetch|network|timed? ?out|ECONN|UNAVAILABLE|overloaded|\b50[0234]\b/i.test(message)) {
+    return new GenerationError('network', message, { cause: error, retryAfterMs: parseRetryAfterMs(message) });
+  }
+  return new GenerationError('unknown', message, { cause: error });
+}
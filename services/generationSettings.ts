@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ProviderModels } from './modelProvider';
+import type { UsageMode } from './usage';
+
+/**
+ * The groups of requests that share generation settings.
+ */
+export type SettingsMode = 'wiki' | 'web-search' | 'document-query' | 'translation' | 'image-analysis' | 'diagram';
+
+export interface ModeSettings {
+  // Null uses the provider's default model for the mode.
+  model: string | null;
+  // Null leaves the value to the model's own default.
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  thinkingBudget: number | null;
+  // Ground answers with a live web search.
+  useSearch: boolean;
+}
+
+export type GenerationSettings = Record<SettingsMode, ModeSettings>;
+
+export const SETTINGS_MODE_LABELS: Record<SettingsMode, string> = {
+  'wiki': 'Wiki & articles',
+  'web-search': 'Web search & links',
+  'document-query': 'Document Q&A',
+  'translation': 'Translation',
+  'image-analysis': 'Image analysis',
+  'diagram': 'Diagrams',
+};
+
+// Which provider model each mode uses when no model is chosen.
+export const DEFAULT_MODEL_ROLES: Record<SettingsMode, keyof ProviderModels> = {
+  'wiki': 'search',
+  'web-search': 'search',
+  'document-query': 'text',
+  'translation': 'text',
+  'image-analysis': 'search',
+  'diagram': 'image',
+};
+
+// Every kind of request is governed by one of the settings groups.
+export const SETTINGS_MODE_FOR_USAGE: Record<UsageMode, SettingsMode> = {
+  'wiki': 'wiki',
+  'article': 'wiki',
+  'preview': 'wiki',
+  'sense': 'wiki',
+  'web-search': 'web-search',
+  'youtube': 'web-search',
+  'web-reader': 'web-search',
+  'document-query': 'document-query',
+  'translation': 'translation',
+  'image-analysis': 'image-analysis',
+  'diagram': 'diagram',
+};
+
+const defaults = (useSearch: boolean): ModeSettings => ({
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  thinkingBudget: null,
+  useSearch,
+});
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  'wiki': defaults(true),
+  'web-search': defaults(true),
+  'document-query': defaults(false),
+  'translation': defaults(false),
+  'image-analysis': defaults(false),
+  'diagram': defaults(false),
+};
+
+const SETTINGS_STORAGE_KEY = 'infinite-wiki:generation-settings';
+
+// Providers reject a zero token limit, which older versions of the settings panel allowed.
+const withValidLimits = (settings: ModeSettings): ModeSettings =>
+  settings.maxOutputTokens === null ? settings : { ...settings, maxOutputTokens: Math.max(1, settings.maxOutputTokens) };
+
+const loadSettings = (): GenerationSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (raw) {
+      const stored: Partial<GenerationSettings> = JSON.parse(raw);
+      // Merge per mode so settings added in later versions get their defaults.
+      return Object.fromEntries(
+        (Object.keys(DEFAULT_GENERATION_SETTINGS) as SettingsMode[]).map(mode => [
+          mode,
+          withValidLimits({ ...DEFAULT_GENERATION_SETTINGS[mode], ...stored[mode] }),
+        ])
+      ) as GenerationSettings;
+    }
+  } catch (e) {
+    console.warn('Could not read generation settings.', e);
+  }
+  return DEFAULT_GENERATION_SETTINGS;
+};
+
+let currentSettings = loadSettings();
+
+export function getGenerationSettings(): GenerationSettings {
+  return currentSettings;
+}
+
+export function getModeSettings(mode: SettingsMode): ModeSettings {
+  return currentSettings[mode];
+}
+
+export function setModeSettings(mode: SettingsMode, settings: ModeSettings): void {
+  currentSettings = { ...currentSettings, [mode]: withValidLimits(settings) };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+}
+
+export function resetGenerationSettings(): void {
+  currentSettings = DEFAULT_GENERATION_SETTINGS;
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+}
+
+/**
+ * The model a mode will call: the one chosen in settings, or the provider's default for the mode.
+ */
+export function resolveModel(mode: SettingsMode, models: ProviderModels): string {
+  return currentSettings[mode].model || models[DEFAULT_MODEL_ROLES[mode]];
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface HistoryNode {
+  id: string;
+  topic: string;
+  parentId: string | null;
+  childIds: string[];
+  // The child last visited from here, which is where Forward goes.
+  activeChildId: string | null;
+  // Meaning the topic was read in, for terms with several. Missing on older trees.
+  sense?: string | null;
+}
+
+/**
+ * A tab's navigation history as a tree. Going back and then somewhere new starts a sibling branch
+ * instead of discarding the old one.
+ */
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>;
+  rootIds: string[];
+  currentId: string | null;
+  nextId: number;
+}
+
+export const EMPTY_HISTORY_TREE: HistoryTree = { nodes: {}, rootIds: [], currentId: null, nextId: 1 };
+
+const sameTopic = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const withNode = (tree: HistoryTree, node: HistoryNode): HistoryTree => ({ ...tree, nodes: { ...tree.nodes, [node.id]: node } });
+
+export function currentHistoryNode(tree: HistoryTree): HistoryNode | null {
+  return tree.currentId ? tree.nodes[tree.currentId] ?? null : null;
+}
+
+/**
+ * A tree with a single root node for `topic`, for a tab that starts over (a new document, for example).
+ */
+export function startHistory(topic: string): HistoryTree {
+  return visitTopic(EMPTY_HISTORY_TREE, topic);
+}
+
+/**
+ * Moves to `topic` from the current node. A child already visited under that name is reused;
+ * otherwise a new branch is added. Staying on the current topic changes nothing.
+ */
+export function visitTopic(tree: HistoryTree, topic: string): HistoryTree {
+  const current = currentHistoryNode(tree);
+  if (current && sameTopic(current.topic, topic)) return tree;
+
+  const siblings = current ? current.childIds : tree.rootIds;
+  const existing = siblings.map(id => tree.nodes[id]).find(node => sameTopic(node.topic, topic));
+  if (existing) return jumpToHistoryNode(tree, existing.id);
+
+  const id = String(tree.nextId);
+  const node: HistoryNode = { id, topic, parentId: current?.id ?? null, childIds: [], activeChildId: null };
+  let next = withNode({ ...tree, currentId: id, nextId: tree.nextId + 1 }, node);
+  if (current) {
+    next = withNode(next, { ...current, childIds: [...current.childIds, id], activeChildId: id });
+  } else {
+    next = { ...next, rootIds: [...tree.rootIds, id] };
+  }
+  return next;
+}
+
+/**
+ * Makes a node current, pointing every ancestor at it so Back and Forward follow its branch.
+ */
+export function jumpToHistoryNode(tree: HistoryTree, nodeId: string): HistoryTree {
+  if (!tree.nodes[nodeId]) return tree;
+  const nodes = { ...tree.nodes };
+  let child = nodes[nodeId];
+  while (child.parentId) {
+    const parent = nodes[child.parentId];
+    nodes[parent.id] = { ...parent, activeChildId: child.id };
+    child = parent;
+  }
+  return { ...tree, nodes, currentId: nodeId };
+}
+
+/**
+ * Records the meaning the current node's topic is read in, so returning to it shows the same one.
+ */
+export function setCurrentSense(tree: HistoryTree, sense: string | null): HistoryTree {
+  const current = currentHistoryNode(tree);
+  if (!current || (current.sense ?? null) === sense) return tree;
+  return withNode(tree, { ...current, sense });
+}
+
+export function canGoBack(tree: HistoryTree): boolean {
+  return !!currentHistoryNode(tree)?.parentId;
+}
+
+export function canGoForward(tree: HistoryTree): boolean {
+  return !!currentHistoryNode(tree)?.activeChildId;
+}
+
+export function goBack(tree: HistoryTree): HistoryTree {
+  const parentId = currentHistoryNode(tree)?.parentId;
+  return parentId ? { ...tree, currentId: parentId } : tree;
+}
+
+export function goForward(tree: HistoryTree): HistoryTree {
+  const childId = currentHistoryNode(tree)?.activeChildId;
+  return childId ? { ...tree, currentId: childId } : tree;
+}
+
+/**
+ * Builds a single-branch tree from the back and forward stacks that tabs used to keep.
+ */
+export function historyFromStacks(historyStack: string[], currentTopic: string, futureStack: string[]): HistoryTree {
+  if (!currentTopic) return EMPTY_HISTORY_TREE;
+  let tree = EMPTY_HISTORY_TREE;
+  for (const topic of [...historyStack, currentTopic]) tree = visitTopic(tree, topic);
+  const currentId = tree.currentId!;
+  for (const topic of futureStack) tree = visitTopic(tree, topic);
+  // Back to the topic that was on screen, leaving the future as the forward branch.
+  return jumpToHistoryNode(tree, currentId);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+/**
+ * Checks the shape of a stored tree (from a session or an imported bundle), returning null if it cannot be used.
+ */
+export function parseHistoryTree(value: unknown): HistoryTree | null {
+  if (!isRecord(value) || !isRecord(value.nodes) || !Array.isArray(value.rootIds)) return null;
+  const stored = value.nodes;
+  const isValid = Object.entries(stored).every(([id, node]) =>
+    isRecord(node)
+    && node.id === id
+    && typeof node.topic === 'string'
+    && Array.isArray(node.childIds)
+    && node.childIds.every(childId => typeof childId === 'string' && isRecord(stored[childId]) && stored[childId].parentId === id)
+    && (node.parentId === null || (typeof node.parentId === 'string' && !!stored[node.parentId]))
+  );
+  const currentId = typeof value.currentId === 'string' ? value.currentId : null;
+  if (!isValid || ((value.currentId ?? null) !== null && (currentId === null || !stored[currentId]))) return null;
+  // Checked above: every stored node has the shape of a HistoryNode.
+  const storedNodes = stored as Record<string, HistoryNode & { activeChildId: unknown; sense?: unknown }>;
+
+  // Every node must be reached exactly once from a root; otherwise parent chains could loop forever.
+  const rootIds = [...new Set(value.rootIds)]
+    .filter((id): id is string => typeof id === 'string' && storedNodes[id]?.parentId === null);
+  const visited = new Set<string>();
+  const pending = [...rootIds];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) return null;
+    visited.add(id);
+    pending.push(...storedNodes[id].childIds);
+  }
+  if (visited.size !== Object.keys(storedNodes).length) return null;
+
+  const nodes: Record<string, HistoryNode> = {};
+  for (const [id, node] of Object.entries(storedNodes)) {
+    nodes[id] = {
+      id,
+      topic: node.topic,
+      parentId: node.parentId,
+      childIds: node.childIds,
+      activeChildId: typeof node.activeChildId === 'string' && node.childIds.includes(node.activeChildId) ? node.activeChildId : null,
+      ...(typeof node.sense === 'string' ? { sense: node.sense } : {}),
+    };
+  }
+  const ids = Object.keys(nodes).map(Number).filter(Number.isFinite);
+  return {
+    nodes,
+    rootIds,
+    currentId,
+    nextId: Math.max(Number(value.nextId) || 1, ...ids.map(id => id + 1)),
+  };
+}
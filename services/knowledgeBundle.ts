@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  type ArticleImportResult,
+  type ArticleVersion,
+  type CachedArticle,
+  importCachedArticles,
+  type ImportConflictStrategy,
+  listCachedArticles,
+  MAX_ARTICLE_VERSIONS,
+} from './articleCache';
+import { type CachedDiagram, importCachedDiagrams, listCachedDiagrams } from './diagramCache';
+import { type Bookmark, type BookmarkCollection, listBookmarkContents, loadBookmarkContent, saveBookmarkContent } from './bookmarks';
+import { historyFromStacks, type HistoryTree, parseHistoryTree } from './historyTree';
+import { formatRoute, parseRoute, type RouteMode } from './routing';
+import { DEFAULT_READING_DEPTH, READING_DEPTHS, type ReadingDepth } from './readingDepth';
+
+/**
+ * The portable part of a tab: where it is and how it got there. Uploaded documents are not exported.
+ */
+export interface TabTrail {
+  title: string;
+  currentTopic: string;
+  sense: string | null;
+  history: HistoryTree;
+  language: string;
+  depth: ReadingDepth;
+  isWebSearchMode: boolean;
+  isStructuredMode: boolean;
+  webSectionIndex: number;
+}
+
+export interface KnowledgeBundle {
+  format: 'infinite-wiki-bundle';
+  version: 1;
+  exportedAt: number;
+  articles: CachedArticle[];
+  diagrams: CachedDiagram[];
+  tabs: TabTrail[];
+  searchHistory: string[];
+  // Missing from bundles exported before bookmarks could be organized.
+  collections: BookmarkCollection[];
+  bookmarks: BundledBookmark[];
+}
+
+/**
+ * A bookmark with the content saved with it, if any.
+ */
+export interface BundledBookmark extends Bookmark {
+  content: string | null;
+  sources: any[];
+}
+
+export interface BundleImportResult {
+  articles: ArticleImportResult;
+  diagramsAdded: number;
+  // Left to the caller, which owns the tab, search history and bookmark state.
+  tabs: TabTrail[];
+  searchHistory: string[];
+  collections: BookmarkCollection[];
+  bookmarks: Bookmark[];
+}
+
+export async function createKnowledgeBundle(
+  tabs: TabTrail[],
+  searchHistory: string[],
+  collections: BookmarkCollection[],
+  bookmarks: Bookmark[]
+): Promise<KnowledgeBundle> {
+  const [articles, diagrams, contents] = await Promise.all([
+    listCachedArticles(),
+    listCachedDiagrams(),
+    listBookmarkContents(bookmarks.filter(bookmark => bookmark.hasContent).map(bookmark => bookmark.id)),
+  ]);
+  return {
+    format: 'infinite-wiki-bundle',
+    version: 1,
+    exportedAt: Date.now(),
+    articles,
+    diagrams,
+    tabs,
+    searchHistory,
+    collections,
+    bookmarks: bookmarks.map(bookmark => {
+      const saved = contents.find(content => content.id === bookmark.id);
+      return { ...bookmark, hasContent: !!saved, content: saved?.content ?? null, sources: saved?.sources ?? [] };
+    }),
+  };
+}
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+const arrayOf = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+const numberOr = <T>(value: unknown, fallback: T): number | T => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+const withoutNulls = <T>(values: (T | null)[]): T[] => values.filter((value): value is T => value !== null);
+
+// Sources are shown as links, so only web addresses with a title are kept.
+const parseSources = (value: unknown): any[] => withoutNulls(arrayOf(value).map(source => {
+  if (!isObject(source) || !isObject(source.web)) return null;
+  const { uri, title } = source.web;
+  return isString(uri) && /^https?:\/\//i.test(uri) && isString(title) ? { web: { uri, title } } : null;
+}));
+
+const parseVersion = (value: unknown): ArticleVersion | null => {
+  if (!isObject(value) || !isString(value.content)) return null;
+  return {
+    content: value.content,
+    sources: parseSources(value.sources),
+    generationTime: numberOr(value.generationTime, null),
+    ...(isString(value.promptVersion) ? { promptVersion: value.promptVersion } : {}),
+    ...(isString(value.model) ? { model: value.model } : {}),
+    createdAt: numberOr(value.createdAt, 0),
+  };
+};
+
+// Derived fields (diagram hashes, size) are recomputed when the article is stored.
+const parseArticle = (value: unknown): CachedArticle | null => {
+  const version = parseVersion(value);
+  if (!version || !isObject(value) || !isString(value.key)) return null;
+  return {
+    ...version,
+    key: value.key,
+    topic: isString(value.topic) ? value.topic : value.key,
+    language: isString(value.language) ? value.language : 'English',
+    previousVersions: withoutNulls(arrayOf(value.previousVersions).map(parseVersion)).slice(0, MAX_ARTICLE_VERSIONS - 1),
+    diagramHashes: [],
+    sizeBytes: 0,
+    lastAccessedAt: numberOr(value.lastAccessedAt, 0),
+  };
+};
+
+const parseDiagram = (value: unknown): CachedDiagram | null => {
+  if (!isObject(value) || !isString(value.hash) || !isString(value.data)) return null;
+  return {
+    hash: value.hash,
+    prompt: isString(value.prompt) ? value.prompt : '',
+    data: value.data,
+    sizeBytes: value.data.length,
+    createdAt: numberOr(value.createdAt, 0),
+  };
+};
+
+const parseTab = (value: unknown): TabTrail | null => {
+  if (!isObject(value) || !isString(value.currentTopic)) return null;
+  const strings = (list: unknown) => arrayOf(list).filter(isString);
+  return {
+    title: isString(value.title) ? value.title : value.currentTopic,
+    currentTopic: value.currentTopic,
+    sense: isString(value.sense) ? value.sense : null,
+    // Bundles exported before history became a tree carry back and forward stacks instead.
+    history: parseHistoryTree(value.history)
+      ?? historyFromStacks(strings(value.historyStack), value.currentTopic, strings(value.futureStack)),
+    language: isString(value.language) ? value.language : 'English',
+    depth: READING_DEPTHS.find(level => level.id === value.depth)?.id ?? DEFAULT_READING_DEPTH,
+    isWebSearchMode: !!value.isWebSearchMode,
+    isStructuredMode: !!value.isStructuredMode,
+    webSectionIndex: Math.max(0, Math.floor(numberOr(value.webSectionIndex, 0))),
+  };
+};
+
+const parseCollection = (value: unknown): BookmarkCollection | null =>
+  isObject(value) && isString(value.id) && isString(value.name)
+    ? { id: value.id, name: value.name, createdAt: numberOr(value.createdAt, 0) }
+    : null;
+
+const parseBookmark = (value: unknown): BundledBookmark | null => {
+  if (!isObject(value) || !isString(value.id) || !isObject(value.route) || !isString(value.route.topic)) return null;
+  const { mode, topic, language, depth, section, sense } = value.route;
+  // Round-tripped through a link, which fills in defaults and rejects unknown modes.
+  const route = parseRoute(formatRoute({
+    mode: String(mode) as RouteMode,
+    topic,
+    language: isString(language) ? language : 'English',
+    depth: isString(depth) ? depth as ReadingDepth : DEFAULT_READING_DEPTH,
+    section: numberOr(section, 0),
+    ...(isString(sense) ? { sense } : {}),
+  }));
+  if (!route) return null;
+  const document = isObject(value.document) && isString(value.document.name) ? value.document : null;
+  const content = isString(value.content) ? value.content : null;
+  return {
+    id: value.id,
+    title: isString(value.title) ? value.title : route.topic,
+    route,
+    document: document
+      ? { name: document.name as string, id: null, page: Number.isInteger(document.page) ? document.page as number : null }
+      : null,
+    collectionId: isString(value.collectionId) ? value.collectionId : null,
+    tags: arrayOf(value.tags).filter(isString),
+    hasContent: content !== null,
+    createdAt: numberOr(value.createdAt, 0),
+    content,
+    sources: parseSources(value.sources),
+  };
+};
+
+/**
+ * Parses and sanity-checks a bundle file, dropping malformed entries rather than failing the whole import.
+ * Entries are rebuilt from the fields that check out, so nothing else in the file reaches the stores.
+ */
+export function parseKnowledgeBundle(text: string): KnowledgeBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== 'infinite-wiki-bundle') {
+    throw new Error('The file is not an Infinite Wiki bundle.');
+  }
+  if (data.version !== 1) {
+    throw new Error(`Bundle version ${data.version} is not supported by this version of the app.`);
+  }
+
+  return {
+    format: 'infinite-wiki-bundle',
+    version: 1,
+    exportedAt: numberOr(data.exportedAt, 0),
+    articles: withoutNulls(arrayOf(data.articles).map(parseArticle)),
+    diagrams: withoutNulls(arrayOf(data.diagrams).map(parseDiagram)),
+    tabs: withoutNulls(arrayOf(data.tabs).map(parseTab)),
+    searchHistory: arrayOf(data.searchHistory).filter(isString),
+    collections: withoutNulls(arrayOf(data.collections).map(parseCollection)),
+    bookmarks: withoutNulls(arrayOf(data.bookmarks).map(parseBookmark)),
+  };
+}
+
+export async function importKnowledgeBundle(bundle: KnowledgeBundle, strategy: ImportConflictStrategy): Promise<BundleImportResult> {
+  // Diagrams first, so eviction after the article import sees them as used.
+  const diagramsAdded = await importCachedDiagrams(bundle.diagrams);
+  const articles = await importCachedArticles(bundle.articles, strategy);
+  // Saved content is only written where none is stored yet, so local bookmarks keep theirs.
+  for (const { id, content, sources } of bundle.bookmarks) {
+    if (content !== null && !(await loadBookmarkContent(id))) await saveBookmarkContent({ id, content, sources });
+  }
+  const bookmarks = bundle.bookmarks.map(({ content, sources, ...bookmark }) => bookmark);
+  return { articles, diagramsAdded, tabs: bundle.tabs, searchHistory: bundle.searchHistory, collections: bundle.collections, bookmarks };
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The languages articles can be written in, as named in prompts.
+ */
+export const LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Chinese (Simplified)',
+  'Japanese',
+  'Hindi',
+  'Arabic',
+  'Portuguese',
+  'Russian'
+];
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createFixtureProvider, parseFixtureMode } from './fixtureProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import type { TokenUsage } from './usage';
+
+export interface TextPart {
+  text: string;
+}
+
+export interface InlineDataPart {
+  inlineData: { mimeType: string; data: string };
+}
+
+export type PromptPart = TextPart | InlineDataPart;
+
+// Mirrors the shapes the Gemini SDK accepts so prompts can be passed through unchanged.
+export type PromptContents = string | { parts: PromptPart[] };
+
+export interface TextGenerationRequest {
+  model: string;
+  contents: PromptContents;
+  // Rules kept apart from the user turn, so that untrusted content in `contents` cannot pose as them.
+  systemInstruction?: string;
+  // Ground the answer with a live web search where the provider supports it.
+  useSearch?: boolean;
+  // Sampling and length limits; left to the model's defaults when unset.
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Tokens the model may spend thinking before it answers (0 turns thinking off). Ignored by providers without it.
+  thinkingBudget?: number;
+  // Cancels the underlying network request.
+  signal?: AbortSignal;
+}
+
+export interface ProviderChunk {
+  text: string;
+  sources?: any[];
+  // Token counts so far. Streaming providers report running totals, so the last value wins.
+  usage?: TokenUsage;
+}
+
+export interface ImageResult {
+  data: string; // base64
+  usage?: TokenUsage;
+}
+
+export interface ProviderModels {
+  text: string;
+  search: string;
+  image: string;
+}
+
+/**
+ * A backend capable of serving the wiki. Every call in geminiService goes through one of these.
+ */
+export interface ModelProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly models: ProviderModels;
+  streamText(request: TextGenerationRequest): AsyncGenerator<ProviderChunk, void, undefined>;
+  generateText(request: TextGenerationRequest): Promise<ProviderChunk>;
+  generateImage(prompt: string, model: string, signal?: AbortSignal): Promise<ImageResult>;
+}
+
+const providerFactories: Record<string, () => ModelProvider> = {
+  'gemini': () => createGeminiProvider(),
+  'openai-compatible': () => createOpenAiCompatibleProvider(),
+  'fixture': () => {
+    const mode = parseFixtureMode(process.env.FIXTURE_MODE || 'replay');
+    return createFixtureProvider({
+      mode,
+      inner: mode === 'record' ? createModelProvider(process.env.FIXTURE_SOURCE_PROVIDER || 'gemini') : undefined,
+      url: process.env.FIXTURE_URL || '/fixtures/recording.json',
+      speed: process.env.FIXTURE_SPEED ? Number(process.env.FIXTURE_SPEED) : 1,
+    });
+  },
+};
+
+let activeProvider: ModelProvider | null = null;
+
+/**
+ * Makes an additional provider selectable through the MODEL_PROVIDER environment variable.
+ */
+export function registerModelProvider(id: string, factory: () => ModelProvider): void {
+  providerFactories[id] = factory;
+}
+
+/**
+ * Replaces the active provider, e.g. to point the app at a fixture provider.
+ */
+export function setModelProvider(provider: ModelProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Creates a new instance of a registered provider.
+ */
+export function createModelProvider(id: string): ModelProvider {
+  const factory = providerFactories[id];
+  if (!factory) {
+    throw new Error(`Unknown model provider "${id}". Available providers: ${Object.keys(providerFactories).join(', ')}.`);
+  }
+  return factory();
+}
+
+/**
+ * Returns the provider named by MODEL_PROVIDER (Gemini by default), creating it on first use.
+ */
+export function getModelProvider(): ModelProvider {
+  if (!activeProvider) {
+    activeProvider = createModelProvider(process.env.MODEL_PROVIDER || 'gemini');
+  }
+  return activeProvider;
+}
+
+/**
+ * Why the provider named by MODEL_PROVIDER cannot be created, or null if it can. For rendering, which
+ * should show the problem rather than fail.
+ */
+export function modelProviderError(): string | null {
+  try {
+    getModelProvider();
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
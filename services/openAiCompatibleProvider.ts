@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { errorFromStatus, GenerationError } from './generationErrors';
+import type { ModelProvider, PromptContents } from './modelProvider';
+import type { TokenUsage } from './usage';
+
+interface OpenAiCompatibleOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  textModel?: string;
+  imageModel?: string;
+}
+
+/**
+ * Converts Gemini-style contents into an OpenAI chat message list.
+ * Only text and images can be expressed; other attachments are rejected.
+ */
+const toMessages = (contents: PromptContents, systemInstruction?: string) => {
+  const system = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+  if (typeof contents === 'string') {
+    return [...system, { role: 'user', content: contents }];
+  }
+
+  const content = contents.parts.map(part => {
+    if ('text' in part) {
+      return { type: 'text', text: part.text };
+    }
+    if (!part.inlineData.mimeType.startsWith('image/')) {
+      throw new Error(`The local model provider cannot read ${part.inlineData.mimeType} attachments.`);
+    }
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+    };
+  });
+  return [...system, { role: 'user', content }];
+};
+
+const toTokenUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+  usage && { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+
+/**
+ * Adapter for any server speaking the OpenAI chat completions protocol,
+ * such as Ollama (`ollama serve` exposes it under /v1), llama.cpp, vLLM or LM Studio.
+ * These servers have no search grounding, so `useSearch` is ignored and no sources are returned.
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions = {}): ModelProvider {
+  const baseUrl = (options.baseUrl || process.env.LOCAL_MODEL_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+  const apiKey = options.apiKey ?? process.env.LOCAL_MODEL_API_KEY;
+  const textModel = options.textModel || process.env.LOCAL_TEXT_MODEL || 'llama3.1';
+  const imageModel = options.imageModel || process.env.LOCAL_IMAGE_MODEL || '';
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus(response.status, `Local model request failed with status ${response.status}. ${detail}`.trim());
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'Local model',
+    models: {
+      text: textModel,
+      search: textModel,
+      image: imageModel,
+    },
+
+    async *streamText(request) {
+      const response = await post('/chat/completions', {
+        model: request.model,
+        messages: toMessages(request.contents, request.systemInstruction),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, request.signal);
+      if (!response.body) {
+        throw new Error('The local model returned an empty stream.');
+      }
+
+      // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        // A last line without a newline is complete once the stream has ended.
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          const json = JSON.parse(payload);
+          const choice = json.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new GenerationError('safety-blocked', 'The response was stopped by the content filter.');
+          }
+          const text = choice?.delta?.content;
+          // The usage report arrives in a final chunk with no choices.
+          const usage = toTokenUsage(json.usage);
+          if (text || usage) {
+            yield { text: text ?? '', usage };
+          }
+        }
+        if (done) break;
+      }
+    },
+
+    async generateText(request) {
+      const response = await post('/chat/completions', {
+        model: request.model,
+        messages: toMessages(request.contents, request.systemInstruction),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+      }, request.signal);
+      const json = await response.json();
+      return { text: json.choices?.[0]?.message?.content ?? '', sources: [], usage: toTokenUsage(json.usage) };
+    },
+
+    async generateImage(prompt, model, signal) {
+      if (!model) {
+        throw new Error('No image model is configured for the local model provider. Set LOCAL_IMAGE_MODEL.');
+      }
+      const response = await post('/images/generations', {
+        model,
+        prompt,
+        response_format: 'b64_json',
+      }, signal);
+      const json = await response.json();
+      const data = json.data?.[0]?.b64_json;
+      if (!data) {
+        throw new GenerationError('empty-response', "No image data returned.");
+      }
+      return { data, usage: toTokenUsage(json.usage) };
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Finds multi-word names and terms in article text so they can be explored as one topic.
+
+export interface TextSegment {
+  text: string; // As displayed, punctuation included
+  target: string | null; // Topic it links to; null for whitespace and bare punctuation
+  isPhrase: boolean;
+}
+
+// Longest phrase, detected or selected, that is taken as a topic.
+export const MAX_PHRASE_WORDS = 8;
+const MAX_PHRASE_LENGTH = 80;
+
+// Capitalised only because they start a sentence, never the start of a name.
+const NON_NAME_STARTS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'he', 'her', 'his', 'how', 'if', 'in', 'into', 'is', 'it',
+  'its', 'many', 'most', 'of', 'on', 'or', 'our', 'she', 'some', 'such', 'that', 'the', 'their', 'these', 'they',
+  'this', 'those', 'to', 'unlike', 'we', 'what', 'when', 'where', 'which', 'while', 'with', 'you',
+]);
+
+// Lowercase words allowed between the capitalised words of a name: "Treaty of Versailles", "Leonardo da Vinci".
+const NAME_CONNECTORS = new Set(['of', 'the', 'and', 'de', 'du', 'da', 'del', 'della', 'di', 'la', 'le', 'von', 'van', 'der', 'den', 'y', 'al', 'bin', 'ibn']);
+
+// Common modifiers that form fixed terms with the noun after them ("black hole", "free will").
+const MODIFIERS = new Set([
+  'black', 'white', 'red', 'blue', 'green', 'dark', 'big', 'free', 'great', 'high', 'low', 'cold', 'hot', 'new',
+  'old', 'open', 'prime', 'quantum', 'deep', 'short', 'long', 'wild', 'civil', 'world', 'human', 'dead', 'first',
+]);
+
+// Adjective endings; words with them usually modify the noun that follows ("natural selection").
+const ADJECTIVE_SUFFIX = /(al|ic|ous|ive|ary|ar|ful|less|able|ible|ian|ese|ist)$/;
+
+// Words that are never part of a detected term.
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'being', 'between', 'both', 'could', 'each', 'even', 'every', 'from',
+  'have', 'having', 'here', 'however', 'into', 'many', 'more', 'most', 'much', 'must', 'only', 'other', 'over',
+  'same', 'several', 'should', 'since', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'under', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will',
+  'with', 'within', 'would', 'the', 'and', 'are', 'was', 'for', 'its', 'not', 'but', 'can', 'has', 'had', 'may',
+  'one', 'two', 'all', 'any', 'our', 'who', 'how', 'why', 'out', 'onto', 'upon', 'often', 'usually',
+]);
+
+/**
+ * Strips the punctuation a click strips and collapses whitespace, giving the topic for a word or phrase.
+ */
+export function cleanTopic(text: string): string {
+  return text.replace(/[.,!?;:()"']/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The topic for a selected span of text, or null if it is empty or too long to be a topic.
+ */
+export function selectionToTopic(text: string): string | null {
+  const topic = cleanTopic(text);
+  if (!topic || topic.length > MAX_PHRASE_LENGTH || topic.split(' ').length > MAX_PHRASE_WORDS) return null;
+  return topic;
+}
+
+// The word without surrounding punctuation, and whether punctuation around it ends a phrase.
+const wordCore = (word: string) => word.replace(/^[("'“‘[]+/, '').replace(/[.,!?;:)"'”’\]]+$/, '');
+const endsPhrase = (word: string) => /[.,!?;:)"'”’\]]$/.test(word);
+const startsPhrase = (word: string) => /^[("'“‘[]/.test(word);
+const isCapitalized = (word: string) => /^\p{Lu}/u.test(word);
+
+// Index of the last word of a capitalised name starting at `words[start]`, or -1.
+const matchName = (words: string[], start: number): number => {
+  const first = wordCore(words[start]);
+  if (!isCapitalized(first) || NON_NAME_STARTS.has(first.toLowerCase())) return -1;
+
+  let end = start;
+  let index = start + 1;
+  while (index < words.length && index - start < MAX_PHRASE_WORDS && !endsPhrase(words[end])) {
+    const word = words[index];
+    if (startsPhrase(word)) break;
+    const core = wordCore(word);
+    if (isCapitalized(core)) {
+      end = index;
+      index++;
+      continue;
+    }
+    // A connector only counts if a capitalised word follows it.
+    const next = words[index + 1];
+    if (NAME_CONNECTORS.has(core) && !endsPhrase(word) && next && !startsPhrase(next) && isCapitalized(wordCore(next))) {
+      end = index + 1;
+      index += 2;
+      continue;
+    }
+    break;
+  }
+  return end > start ? end : -1;
+};
+
+// Index of the noun of a modifier + noun term starting at `words[start]`, or -1.
+const matchTerm = (words: string[], start: number): number => {
+  if (start + 1 >= words.length || endsPhrase(words[start]) || startsPhrase(words[start + 1])) return -1;
+  const modifier = wordCore(words[start]);
+  const noun = wordCore(words[start + 1]);
+  if (modifier !== modifier.toLowerCase() || noun !== noun.toLowerCase()) return -1;
+  if (STOPWORDS.has(modifier) || STOPWORDS.has(noun) || noun.length < 3 || noun.endsWith('ly') || !/^\p{L}+$/u.test(noun)) return -1;
+
+  const isModifier = MODIFIERS.has(modifier) || (modifier.length >= 5 && ADJECTIVE_SUFFIX.test(modifier) && !modifier.endsWith('ly'));
+  return isModifier ? start + 1 : -1;
+};
+
+/**
+ * Splits article text into whitespace, single words and detected multi-word phrases
+ * (capitalised names and modifier + noun terms), each word or phrase linking to its topic.
+ */
+export function segmentText(text: string): TextSegment[] {
+  const tokens = text.split(/(\s+)/).filter(Boolean);
+  // Word tokens sit at every other index once leading whitespace is accounted for.
+  const offset = tokens.length > 0 && /^\s/.test(tokens[0]) ? 1 : 0;
+  const words = tokens.filter((_, index) => (index - offset) % 2 === 0);
+
+  const segments: TextSegment[] = [];
+  if (offset) segments.push({ text: tokens[0], target: null, isPhrase: false });
+
+  for (let index = 0; index < words.length; index++) {
+    const end = Math.max(matchName(words, index), matchTerm(words, index));
+    let last = end > index ? end : index;
+    // Phrases never run across a line break.
+    for (let k = index; k < last; k++) {
+      if (tokens[offset + k * 2 + 1].includes('\n')) {
+        last = k;
+        break;
+      }
+    }
+    const display = tokens.slice(offset + index * 2, offset + last * 2 + 1).join('');
+    const target = cleanTopic(display);
+    segments.push({ text: display, target: target || null, isPhrase: last > index });
+
+    const whitespace = tokens[offset + last * 2 + 1];
+    if (whitespace) segments.push({ text: whitespace, target: null, isPhrase: false });
+    index = last;
+  }
+  return segments;
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Idle-time prefetching of the words a reader is most likely to click next.
+
+import { segmentText } from './phraseDetection';
+
+export interface PrefetchSettings {
+  enabled: boolean;
+  perArticle: number; // Words prefetched after each article finishes
+  perSession: number; // Total prefetches until the page is reloaded
+}
+
+export const DEFAULT_PREFETCH_SETTINGS: PrefetchSettings = { enabled: true, perArticle: 3, perSession: 30 };
+
+const PREFETCH_STORAGE_KEY = 'infinite-wiki:prefetch';
+
+const loadSettings = (): PrefetchSettings => {
+  try {
+    const raw = localStorage.getItem(PREFETCH_STORAGE_KEY);
+    if (raw) return { ...DEFAULT_PREFETCH_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn('Could not read prefetch settings.', e);
+  }
+  return DEFAULT_PREFETCH_SETTINGS;
+};
+
+let currentSettings = loadSettings();
+let sessionPrefetches = 0;
+
+export function getPrefetchSettings(): PrefetchSettings {
+  return currentSettings;
+}
+
+export function setPrefetchSettings(settings: PrefetchSettings): void {
+  currentSettings = settings;
+  localStorage.setItem(PREFETCH_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * How many more words may be prefetched in this session.
+ */
+export function remainingPrefetches(): number {
+  return Math.max(currentSettings.perSession - sessionPrefetches, 0);
+}
+
+export function recordPrefetch(): void {
+  sessionPrefetches++;
+}
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'either', 'even', 'ever', 'every', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'itself', 'just', 'less', 'like', 'many', 'may', 'me', 'might', 'more', 'most', 'much',
+  'must', 'my', 'neither', 'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once', 'one', 'only', 'or',
+  'other', 'our', 'out', 'over', 'own', 'rather', 'same', 'she', 'should', 'since', 'so', 'some', 'such', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'thus', 'to', 'too',
+  'under', 'until', 'up', 'upon', 'us', 'used', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'whether',
+  'which', 'while', 'who', 'whom', 'whose', 'why', 'will', 'with', 'within', 'without', 'would', 'yet', 'you', 'your',
+]);
+
+// Endings that usually mark a noun, which make better topics than verbs or adjectives.
+const NOUN_SUFFIX = /(tion|sion|ism|ity|ment|ness|ogy|ics|ance|ence|ure|ship|ist)$/;
+
+const MIN_WORD_LENGTH = 4;
+
+/**
+ * Ranks the links of an article (its single words and detected phrases) by how likely a reader is to
+ * click them, best first. They are the topics the article links to, so a prefetched one hits the same
+ * cache entry as a click on it.
+ * `hoverCounts` (keyed by lowercase topic) boosts topics the reader has lingered on;
+ * `exclude` (lowercase) removes topics that should not be fetched, such as the current one.
+ */
+export function rankPrefetchCandidates(
+  content: string,
+  hoverCounts: ReadonlyMap<string, number>,
+  exclude: ReadonlySet<string>
+): string[] {
+  // Diagrams and section markers are not shown as text; line breaks keep phrases from spanning them.
+  const text = content
+    .replace(/\[DIAGRAM:\s*.*?\]/g, '\n')
+    .replace(/^[\s*#>-]*(LEAD|SECTION|FACT|RELATED)\s*:/gim, '\n');
+
+  const scores = new Map<string, { word: string; score: number }>();
+  let sentenceStart = true;
+  for (const segment of segmentText(text)) {
+    if (!segment.target) continue;
+    const word = segment.target;
+    const startsSentence = sentenceStart;
+    sentenceStart = /[.!?:]["')]*$/.test(segment.text);
+
+    const key = word.toLowerCase();
+    if (exclude.has(key) || !/^\p{L}/u.test(word)) continue;
+    if (!segment.isPhrase && (word.length < MIN_WORD_LENGTH || STOPWORDS.has(key))) continue;
+
+    let score = 1;
+    // Detected names and terms, and capitals in the middle of a sentence, are what readers follow most.
+    if (segment.isPhrase) score += 2;
+    else if (/^\p{Lu}/u.test(word) && !startsSentence) score += 2;
+    if (NOUN_SUFFIX.test(key)) score += 1;
+    score += Math.min(word.length, 12) / 12;
+
+    const entry = scores.get(key);
+    if (entry) entry.score += score;
+    else scores.set(key, { word, score });
+  }
+
+  for (const [key, entry] of scores) {
+    entry.score += (hoverCounts.get(key) ?? 0) * 3;
+  }
+
+  return [...scores.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.word);
+}
+
+/**
+ * Resolves when the browser is next idle, or straight away once the signal is aborted.
+ */
+export function waitForIdle(signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    let cancel = () => {};
+    const finish = () => {
+      cancel();
+      signal.removeEventListener('abort', finish);
+      resolve();
+    };
+    if (typeof window.requestIdleCallback === 'function') {
+      const handle = window.requestIdleCallback(finish, { timeout: 5000 });
+      cancel = () => window.cancelIdleCallback(handle);
+    } else {
+      const handle = window.setTimeout(finish, 1000);
+      cancel = () => window.clearTimeout(handle);
+    }
+    signal.addEventListener('abort', finish, { once: true });
+  });
+}
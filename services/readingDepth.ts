@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ReadingDepth = 'child' | 'beginner' | 'general' | 'advanced' | 'expert';
+
+interface ReadingDepthLevel {
+  id: ReadingDepth;
+  label: string;
+  // Added to wiki and article prompts; empty for the default level so its prompts stay unchanged.
+  instruction: string;
+}
+
+// Ordered from simplest to most technical; "go deeper" moves one step down this list.
+export const READING_DEPTHS: ReadingDepthLevel[] = [
+  {
+    id: 'child',
+    label: "Explain like I'm 10",
+    instruction: 'Write for a curious ten-year-old. Use short sentences, everyday words and a familiar comparison. Avoid jargon entirely.',
+  },
+  {
+    id: 'beginner',
+    label: 'Beginner',
+    instruction: 'Write for a newcomer with no background in the field. Explain any technical term the first time you use it.',
+  },
+  {
+    id: 'general',
+    label: 'General reader',
+    instruction: '',
+  },
+  {
+    id: 'advanced',
+    label: 'Advanced',
+    instruction: 'Write for a reader who already knows the basics of the field. Skip introductory material and cover mechanisms, nuances and open questions.',
+  },
+  {
+    id: 'expert',
+    label: 'Expert',
+    instruction: 'Write for a specialist. Use precise technical terminology without explaining it, and include formal definitions, notation or key results where relevant.',
+  },
+];
+
+export const DEFAULT_READING_DEPTH: ReadingDepth = 'general';
+
+export function readingDepthInstruction(depth: ReadingDepth): string {
+  return READING_DEPTHS.find(level => level.id === depth)?.instruction ?? '';
+}
+
+/**
+ * The next, more detailed level, or null when already at the deepest one.
+ */
+export function nextReadingDepth(depth: ReadingDepth): ReadingDepthLevel | null {
+  const index = READING_DEPTHS.findIndex(level => level.id === depth);
+  return READING_DEPTHS[index + 1] ?? null;
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { classifyError, GenerationError } from './generationErrors';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+  // Stops waiting between attempts as soon as the caller cancels.
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'onRetry' | 'signal'>> = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+// Servers asking for a longer wait than this are treated as a hard failure rather than waited out.
+const MAX_SERVER_DELAY_MS = 30000;
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and base * 2^attempt, capped.
+ * Jitter keeps several clients sharing one key from retrying in lockstep.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Resolves after `ms`, or rejects with an aborted GenerationError if the signal fires first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationError('aborted', 'The request was cancelled.'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('aborted', 'The request was cancelled.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Works out how long to wait before the next attempt, or null if the error should not be retried.
+ */
+const nextDelay = (error: GenerationError, attempt: number, options: RetryOptions): number | null => {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+  if (!error.retryable || attempt + 1 >= maxAttempts || options.signal?.aborted) return null;
+  if (error.retryAfterMs !== undefined && error.retryAfterMs > MAX_SERVER_DELAY_MS) return null;
+  return Math.max(error.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+};
+
+/**
+ * Runs an async operation, retrying transient failures.
+ */
+export async function retryAsync<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (e) {
+      const error = classifyError(e, options.signal);
+      const delayMs = nextDelay(error, attempt, options);
+      if (delayMs === null) throw error;
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Consumes a stream, retrying transient failures that happen before the first item arrives.
+ * Once anything has been yielded a retry would duplicate output, so later failures are rethrown.
+ */
+export async function* retryStream<T>(start: () => AsyncIterable<T>, options: RetryOptions = {}): AsyncGenerator<T, void, undefined> {
+  for (let attempt = 0; ; attempt++) {
+    let hasYielded = false;
+    try {
+      for await (const item of start()) {
+        hasYielded = true;
+        yield item;
+      }
+      return;
+    } catch (e) {
+      const error = classifyError(e, options.signal);
+      const delayMs = hasYielded ? null : nextDelay(error, attempt, options);
+      if (delayMs === null) throw error;
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LANGUAGES } from './languages';
+import { DEFAULT_READING_DEPTH, READING_DEPTHS, type ReadingDepth } from './readingDepth';
+import { senseFromLink } from './senses';
+
+export type RouteMode = 'wiki' | 'article' | 'search';
+
+/**
+ * Everything needed to reproduce a view from a link. Documents are local, so they have no route.
+ */
+export interface Route {
+  mode: RouteMode;
+  topic: string;
+  language: string;
+  depth: ReadingDepth;
+  section: number; // Section of a web page being read
+  sense?: string; // Meaning of a term with several, as picked for the view
+}
+
+/**
+ * Stored with each browser history entry, so Back and Forward can find the tab and history node again.
+ */
+export interface RouteHistoryState {
+  tabId: string;
+  nodeId: string | null;
+}
+
+const ROUTE_MODES: RouteMode[] = ['wiki', 'article', 'search'];
+
+const DEFAULT_LANGUAGE = 'English';
+
+/**
+ * The URL hash for a route, e.g. `#/search/Entropy?lang=Japanese`. Defaults are left out to keep links short.
+ */
+export function formatRoute(route: Route): string {
+  const params = new URLSearchParams();
+  if (route.language !== DEFAULT_LANGUAGE) params.set('lang', route.language);
+  if (route.depth !== DEFAULT_READING_DEPTH) params.set('depth', route.depth);
+  if (route.section > 0) params.set('section', String(route.section));
+  if (route.sense) params.set('sense', route.sense);
+  const query = params.toString();
+  return `#/${route.mode}/${encodeURIComponent(route.topic)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Reads a route from a URL hash, or returns null if the hash is not one. Unknown languages fall back
+ * to the default, and a meaning that could not have been picked in the app is dropped.
+ */
+export function parseRoute(hash: string): Route | null {
+  const match = hash.match(/^#\/([a-z]+)\/([^?]*)(?:\?(.*))?$/);
+  if (!match || !ROUTE_MODES.includes(match[1] as RouteMode)) return null;
+
+  let topic: string;
+  try {
+    topic = decodeURIComponent(match[2]).trim();
+  } catch {
+    return null;
+  }
+  if (!topic) return null;
+
+  const params = new URLSearchParams(match[3] ?? '');
+  const depth = params.get('depth');
+  const language = params.get('lang')?.trim();
+  const sense = senseFromLink(params.get('sense') ?? '');
+  return {
+    mode: match[1] as RouteMode,
+    topic,
+    language: language && LANGUAGES.includes(language) ? language : DEFAULT_LANGUAGE,
+    depth: READING_DEPTHS.some(level => level.id === depth) ? depth as ReadingDepth : DEFAULT_READING_DEPTH,
+    section: Math.max(0, Math.floor(Number(params.get('section')) || 0)),
+    ...(sense ? { sense } : {}),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { detectInjectionAttempts } from './untrustedContent';
+
+// Telling apart the meanings of a word followed from an article, so it is defined in the sense it was used.
+
+/**
+ * Where a followed word was read: the sentence around it and the article it appeared in.
+ */
+export interface SenseContext {
+  sentence: string;
+  parentTopic: string;
+}
+
+/**
+ * The common meanings of a term, each a short phrase, and the one meant in its context.
+ */
+export interface SenseResult {
+  senses: string[];
+  chosen: number;
+}
+
+// Offered in the picker; terms with more meanings than this list their most common ones.
+export const MAX_SENSES = 5;
+const MAX_SENSE_LENGTH = 80;
+
+// Longest sentence sent along with a click; longer ones are cut around the word.
+const MAX_CONTEXT_LENGTH = 300;
+
+/**
+ * The sentence of `text` containing the character at `index`, trimmed to a length worth sending.
+ */
+export function sentenceAround(text: string, index: number): string {
+  const before = text.slice(0, index);
+  const boundary = Math.max(before.search(/[^.!?\n]*$/), 0);
+  const after = text.slice(index).search(/[.!?](\s|$)|\n/);
+  const end = after === -1 ? text.length : index + after + 1;
+  const sentence = text.slice(boundary, end).replace(/\[DIAGRAM:\s*.*?\]/g, '').replace(/\s+/g, ' ').trim();
+  if (sentence.length <= MAX_CONTEXT_LENGTH) return sentence;
+  const start = Math.max(0, Math.min(index - boundary - MAX_CONTEXT_LENGTH / 2, sentence.length - MAX_CONTEXT_LENGTH));
+  return sentence.slice(start, start + MAX_CONTEXT_LENGTH).trim();
+}
+
+/**
+ * A meaning taken from a shared link, or null if it could not have come from the picker. Links are
+ * written by anyone and the meaning is quoted into the prompt, so quotes and instruction-like text
+ * are turned away.
+ */
+export function senseFromLink(value: string): string | null {
+  const sense = value.replace(/\s+/g, ' ').trim();
+  if (!sense || sense.length > MAX_SENSE_LENGTH || sense.includes('"')) return null;
+  return detectInjectionAttempts(sense).length > 0 ? null : sense;
+}
+
+/**
+ * Reads the model's JSON answer, tolerating code fences and stray text around it.
+ * Returns null if no usable list of meanings can be found.
+ */
+export function parseSenseResponse(text: string): SenseResult | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(value?.senses)) return null;
+
+  const senses: string[] = [];
+  for (const sense of value.senses) {
+    const label = typeof sense === 'string' ? sense.replace(/\s+/g, ' ').trim() : '';
+    if (label && label.length <= MAX_SENSE_LENGTH && !senses.some(other => other.toLowerCase() === label.toLowerCase())) senses.push(label);
+  }
+  if (senses.length === 0) return null;
+  const chosen = Number.isInteger(value.chosen) && value.chosen >= 0 && value.chosen < senses.length ? value.chosen : 0;
+  // Cut to the limit, keeping the chosen meaning in the list.
+  if (senses.length > MAX_SENSES) {
+    const kept = senses.slice(0, MAX_SENSES - 1);
+    const last = chosen < MAX_SENSES - 1 ? senses[MAX_SENSES - 1] : senses[chosen];
+    return { senses: [...kept, last], chosen: Math.min(chosen, MAX_SENSES - 1) };
+  }
+  return { senses, chosen };
+}
+
+// Results by language, parent topic, term and sentence, kept across sessions. Oldest are dropped first.
+const SENSES_STORAGE_KEY = 'infinite-wiki:senses';
+const MAX_RESULTS = 200;
+let results: Map<string, SenseResult> | null = null;
+
+const storedResults = (): Map<string, SenseResult> => {
+  if (results) return results;
+  results = new Map();
+  try {
+    const raw = localStorage.getItem(SENSES_STORAGE_KEY);
+    if (raw) {
+      for (const [key, value] of JSON.parse(raw)) {
+        const result = parseSenseResponse(JSON.stringify(value));
+        if (typeof key === 'string' && result) results.set(key, result);
+      }
+    }
+  } catch (e) {
+    console.warn('Could not read remembered word meanings.', e);
+  }
+  return results;
+};
+
+const resultKey = (topic: string, context: SenseContext, language: string) =>
+  [language, context.parentTopic.toLowerCase(), topic.toLowerCase(), context.sentence].join('\n');
+
+/**
+ * The meanings of `topic` in `context`: remembered from an earlier click on the same sentence,
+ * or detected with `detect` and remembered.
+ */
+export async function loadSenses(
+  topic: string,
+  context: SenseContext,
+  language: string,
+  detect: () => Promise<SenseResult>
+): Promise<SenseResult> {
+  const remembered = storedResults().get(resultKey(topic, context, language));
+  if (remembered) return remembered;
+
+  const result = await detect();
+  const stored = storedResults();
+  stored.set(resultKey(topic, context, language), result);
+  if (stored.size > MAX_RESULTS) stored.delete(stored.keys().next().value!);
+  try {
+    localStorage.setItem(SENSES_STORAGE_KEY, JSON.stringify([...stored]));
+  } catch (e) {
+    console.warn('Could not remember word meanings.', e);
+  }
+  return result;
+}
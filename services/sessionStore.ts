@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { requestToPromise, withStore } from './db';
+import type { InjectionFinding } from './untrustedContent';
+
+/**
+ * The light, serializable part of the open tabs. Stored in localStorage so it can be read
+ * synchronously on startup; document payloads live in IndexedDB and are referenced by id.
+ */
+export interface SessionSnapshot<T> {
+  version: 1;
+  activeTabId: string;
+  tabs: T[];
+  // Most recently closed first.
+  closedTabs: T[];
+}
+
+export interface StoredDocument {
+  id: string;
+  documentContext: string | null;
+  fileData: { base64: string; mimeType: string } | null;
+  ebookPages: string[];
+  injectionFindings: InjectionFinding[];
+}
+
+export const MAX_CLOSED_TABS = 10;
+
+const SESSION_STORAGE_KEY = 'infinite-wiki:session';
+
+export function loadSession<T>(): SessionSnapshot<T> | null {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const snapshot: SessionSnapshot<T> = JSON.parse(raw);
+    if (snapshot.version !== 1 || snapshot.tabs.length === 0) return null;
+    return snapshot;
+  } catch (e) {
+    console.warn('Could not restore the previous session.', e);
+    return null;
+  }
+}
+
+export function saveSession<T>(snapshot: SessionSnapshot<T>): void {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (e) {
+    console.warn('Could not save the session.', e);
+  }
+}
+
+export async function saveDocument(document: StoredDocument): Promise<void> {
+  try {
+    await withStore('documents', 'readwrite', store => { store.put(document); });
+  } catch (e) {
+    console.warn('Could not save the document for session restore.', e);
+  }
+}
+
+export async function loadDocument(id: string): Promise<StoredDocument | null> {
+  try {
+    return (await withStore('documents', 'readonly', store => requestToPromise(store.get(id)))) ?? null;
+  } catch (e) {
+    console.warn('Could not load the stored document.', e);
+    return null;
+  }
+}
+
+/**
+ * Deletes stored documents that no open or closed tab refers to any more.
+ */
+export async function pruneDocuments(keepIds: Set<string>): Promise<void> {
+  try {
+    await withStore('documents', 'readwrite', async store => {
+      const ids = await requestToPromise(store.getAllKeys());
+      for (const id of ids) {
+        if (!keepIds.has(String(id))) store.delete(id);
+      }
+    });
+  } catch (e) {
+    console.warn('Could not clean up stored documents.', e);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ArticleSection {
+  heading: string;
+  body: string;
+}
+
+export interface StructuredArticle {
+  lead: string;
+  sections: ArticleSection[];
+  keyFacts: string[];
+  relatedTopics: string[];
+}
+
+/**
+ * The line-tagged format structured articles are streamed in. A tagged format (rather than JSON)
+ * stays readable while it is still arriving, so blocks can be rendered as they stream.
+ */
+export const STRUCTURED_ARTICLE_FORMAT = `LEAD: <a two or three sentence summary>
+SECTION: <section heading>
+<one or more paragraphs for this section>
+SECTION: <next section heading>
+<paragraphs>
+FACT: <a short key fact>
+FACT: <another key fact>
+RELATED: <a related topic, two to four words>
+RELATED: <another related topic>`;
+
+const TAG_PATTERN = /^[\s*#>-]*(LEAD|SECTION|FACT|RELATED)\s*:\s*\**\s*(.*)$/i;
+
+/**
+ * Parses (possibly partial) structured article text. Untagged lines continue the previous block.
+ */
+export function parseStructuredArticle(text: string): StructuredArticle {
+  const article: StructuredArticle = { lead: '', sections: [], keyFacts: [], relatedTopics: [] };
+  let current: 'lead' | 'section' | 'fact' | 'related' = 'lead';
+
+  const append = (existing: string, addition: string) => existing ? `${existing}\n${addition}` : addition;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    const match = line.match(TAG_PATTERN);
+
+    if (match) {
+      const value = match[2].replace(/\*+$/, '').trim();
+      switch (match[1].toUpperCase()) {
+        case 'LEAD':
+          current = 'lead';
+          article.lead = append(article.lead, value);
+          break;
+        case 'SECTION':
+          current = 'section';
+          article.sections.push({ heading: value, body: '' });
+          break;
+        case 'FACT':
+          current = 'fact';
+          if (value) article.keyFacts.push(value);
+          break;
+        case 'RELATED':
+          current = 'related';
+          if (value) article.relatedTopics.push(value);
+          break;
+      }
+      continue;
+    }
+
+    if (!line) continue;
+
+    if (current === 'lead') {
+      article.lead = append(article.lead, line);
+    } else if (current === 'section') {
+      const section = article.sections[article.sections.length - 1];
+      section.body = append(section.body, line);
+    } else if (current === 'fact' && article.keyFacts.length > 0) {
+      article.keyFacts[article.keyFacts.length - 1] += ` ${line}`;
+    }
+  }
+
+  return article;
+}
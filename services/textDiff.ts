@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many word pairs the comparison table gets too large (~36 MB); the texts are shown as replaced wholesale.
+const MAX_CELLS = 9_000_000;
+
+// Each word with the whitespace after it, so joining the tokens gives back the original text.
+const tokenize = (text: string) => text.match(/^\s+|\S+\s*/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts using a longest-common-subsequence table.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix need no table.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  if (rows * cols > MAX_CELLS) {
+    if (rows > 0) pushSegment(segments, 'removed', midA.join(''));
+    if (cols > 0) pushSegment(segments, 'added', midB.join(''));
+  } else {
+    // lengths[i * (cols + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushSegment(segments, 'removed', midA[i++]);
+      } else {
+        pushSegment(segments, 'added', midB[j++]);
+      }
+    }
+    while (i < rows) pushSegment(segments, 'removed', midA[i++]);
+    while (j < cols) pushSegment(segments, 'added', midB[j++]);
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageMode =
+  | 'wiki'
+  | 'article'
+  | 'preview'
+  | 'sense'
+  | 'web-search'
+  | 'document-query'
+  | 'translation'
+  | 'image-analysis'
+  | 'youtube'
+  | 'web-reader'
+  | 'diagram';
+
+export interface UsageRecord extends TokenUsage {
+  mode: UsageMode;
+  model: string;
+  costUsd: number;
+  timestamp: number;
+  // True when the provider reported no usage and the counts were estimated from text length.
+  estimated?: boolean;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  costUsd: number;
+}
+
+export interface UsageBudget {
+  // Warn once the session is expected to cost more than this. Null disables the check.
+  softLimitUsd: number | null;
+  // Warn before any single request expected to send more input tokens than this.
+  warnAboveInputTokens: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { softLimitUsd: null, warnAboveInputTokens: 100000 };
+
+// USD per million tokens, from the public Gemini price list. Models not listed are treated as free (e.g. local models).
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-flash-lite-latest': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+};
+
+// Suggested in the model settings when the Gemini provider is active.
+export const PRICED_MODELS = Object.keys(MODEL_PRICES);
+
+const BUDGET_STORAGE_KEY = 'infinite-wiki:usage-budget';
+
+/**
+ * Rough token count for text that has not been sent yet (about four characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function createUsageRecord(mode: UsageMode, model: string, usage: TokenUsage, estimated: boolean = false): UsageRecord {
+  return {
+    ...usage,
+    mode,
+    model,
+    costUsd: estimateCost(model, usage),
+    timestamp: Date.now(),
+    estimated: estimated || undefined,
+  };
+}
+
+export function addUsage(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    costUsd: totals.costUsd + record.costUsd,
+  };
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+export function loadUsageBudget(): UsageBudget {
+  try {
+    const raw = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (raw) return { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn('Could not read the usage budget.', e);
+  }
+  return DEFAULT_USAGE_BUDGET;
+}
+
+export function saveUsageBudget(budget: UsageBudget): void {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+}
+
+/**
+ * Returns a warning if a request of the given size would exceed the budget, or null if it is fine.
+ */
+export function checkBudget(
+  budget: UsageBudget,
+  sessionTotals: UsageTotals,
+  model: string,
+  estimatedInputTokens: number
+): string | null {
+  const estimatedCost = estimateCost(model, { inputTokens: estimatedInputTokens, outputTokens: 0 });
+
+  if (estimatedInputTokens > budget.warnAboveInputTokens) {
+    return `This request will send about ${estimatedInputTokens.toLocaleString()} input tokens (${formatCost(estimatedCost)}).`;
+  }
+  if (budget.softLimitUsd !== null && sessionTotals.costUsd + estimatedCost > budget.softLimitUsd) {
+    return `This request would take the session past its ${formatCost(budget.softLimitUsd)} budget (${formatCost(sessionTotals.costUsd)} used so far).`;
+  }
+  return null;
+}
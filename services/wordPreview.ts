@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { peekCachedArticle } from './articleCache';
+import { parseStructuredArticle } from './structuredArticle';
+
+// Previews generated this session, by language and lowercase topic. Oldest are dropped first.
+const previews = new Map<string, string>();
+const MAX_PREVIEWS = 200;
+
+// Generations in progress, so hovering the same word twice does not ask twice, with the signal that can abort them.
+const inFlight = new Map<string, { promise: Promise<string>; signal?: AbortSignal }>();
+
+/**
+ * The first sentence of an article, without diagram tags. Structured articles use their lead.
+ */
+export function firstSentence(content: string): string {
+  const lead = parseStructuredArticle(content).lead || content;
+  const text = lead.replace(/\[DIAGRAM:\s*.*?\]/g, '').replace(/\s+/g, ' ').trim();
+  const match = text.match(/^.+?[.!?](?=\s|$)/);
+  return match ? match[0] : text;
+}
+
+/**
+ * The preview sentence for a topic: remembered from earlier, taken from a cached article
+ * (tried in the order of `articleKeys`), or generated with `generate` as a last resort.
+ * A generation aborted through `signal` is not shared with later calls.
+ */
+export function loadWordPreview(
+  topic: string,
+  language: string,
+  articleKeys: string[],
+  generate: () => Promise<string>,
+  signal?: AbortSignal
+): Promise<string> {
+  const key = `${language}:${topic.toLowerCase()}`;
+  const remembered = previews.get(key);
+  if (remembered) return Promise.resolve(remembered);
+  const pending = inFlight.get(key);
+  if (pending && !pending.signal?.aborted) return pending.promise;
+
+  const forget = () => {
+    if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+  };
+
+  const promise = (async () => {
+    for (const articleKey of articleKeys) {
+      const cached = await peekCachedArticle(articleKey);
+      if (cached) return firstSentence(cached.content);
+    }
+    const sentence = firstSentence(await generate());
+    previews.set(key, sentence);
+    if (previews.size > MAX_PREVIEWS) previews.delete(previews.keys().next().value!);
+    return sentence;
+  })().finally(forget);
+
+  inFlight.set(key, { promise, signal });
+  return promise;
+}
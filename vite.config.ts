@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.LOCAL_MODEL_BASE_URL': JSON.stringify(env.LOCAL_MODEL_BASE_URL),
+        'process.env.LOCAL_MODEL_API_KEY': JSON.stringify(env.LOCAL_MODEL_API_KEY),
+        'process.env.LOCAL_TEXT_MODEL': JSON.stringify(env.LOCAL_TEXT_MODEL),
+        'process.env.LOCAL_IMAGE_MODEL': JSON.stringify(env.LOCAL_IMAGE_MODEL),
+        'process.env.FIXTURE_MODE': JSON.stringify(env.FIXTURE_MODE),
+        'process.env.FIXTURE_SOURCE_PROVIDER': JSON.stringify(env.FIXTURE_SOURCE_PROVIDER),
+        'process.env.FIXTURE_URL': JSON.stringify(env.FIXTURE_URL),
+        'process.env.FIXTURE_SPEED': JSON.stringify(env.FIXTURE_SPEED)
       },
       resolve: {
         alias: {